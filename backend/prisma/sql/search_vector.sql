@@ -0,0 +1,26 @@
+-- Full-text search column for use_cases
+--
+-- Prisma cannot declare generated columns, so `prisma db push` creates
+-- search_vector as a plain tsvector column. Run this script afterwards
+-- (npm run db:search-index) to turn it into a generated, weighted column:
+--
+--   A: use case name
+--   B: concept description
+--   C: concrete implementation, benefit
+--   D: value chain step
+--
+-- Industries and departments are linked taxonomy terms, which a generated
+-- column cannot read. Searches match the term names separately and add the
+-- linked use cases (see rankUseCaseMatches in src/search.ts).
+
+ALTER TABLE use_cases DROP COLUMN IF EXISTS search_vector;
+
+ALTER TABLE use_cases ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english'::regconfig, coalesce(use_case, '')), 'A') ||
+  setweight(to_tsvector('english'::regconfig, coalesce(concept_description, '')), 'B') ||
+  setweight(to_tsvector('english'::regconfig, coalesce(concrete_implementation, '')), 'C') ||
+  setweight(to_tsvector('english'::regconfig, coalesce(benefit, '')), 'C') ||
+  setweight(to_tsvector('english'::regconfig, coalesce(value_chain_step, '')), 'D')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS use_cases_search_vector_idx ON use_cases USING GIN (search_vector);
@@ -0,0 +1,29 @@
+-- Case-insensitive unique tag names
+--
+-- Prisma can only declare `name` unique as written, so "genai" and "GenAI"
+-- could both be stored. Run this script after `prisma db push`
+-- (npm run db:tag-names). It merges tags whose names differ only in case
+-- into the oldest one and adds a unique index on lower(name), which
+-- resolveTagIds in src/taxonomy.ts relies on when two saves create the
+-- same tag at once. It is safe to re-run.
+
+BEGIN;
+
+CREATE TEMPORARY TABLE tag_merges ON COMMIT DROP AS
+SELECT id AS duplicate_id, min(id) OVER (PARTITION BY lower(name)) AS kept_id
+FROM tags;
+
+DELETE FROM tag_merges WHERE duplicate_id = kept_id;
+
+-- Implicit many-to-many table of Tag and UseCase: "A" is the tag, "B" the use case
+INSERT INTO "_TagToUseCase" ("A", "B")
+SELECT m.kept_id, l."B"
+FROM "_TagToUseCase" l
+JOIN tag_merges m ON m.duplicate_id = l."A"
+ON CONFLICT DO NOTHING;
+
+DELETE FROM tags WHERE id IN (SELECT duplicate_id FROM tag_merges);
+
+CREATE UNIQUE INDEX IF NOT EXISTS tags_name_lower_key ON tags (lower(name));
+
+COMMIT;
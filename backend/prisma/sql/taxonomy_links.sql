@@ -0,0 +1,88 @@
+-- Links use cases to several industries and departments
+--
+-- Use cases used to hold one industry and one department as text columns.
+-- Run this script once on such a database BEFORE `prisma db push`
+-- (npm run db:taxonomy-links). It moves the values into the link tables
+-- Prisma declares for UseCase.industries and UseCase.departments:
+--
+--   - Cells holding several values ("Retail; Banking") are split on ";"
+--   - Values are matched to the terms of their type by name or alias,
+--     ignoring case and repeated whitespace
+--   - Values without a term become a new term named after the most used
+--     spelling, added at the end of the order
+--
+-- Afterwards push the schema and recreate the search column:
+--   npm run prisma:push && npm run db:search-index
+
+BEGIN;
+
+-- The generated search column is built from the columns dropped below
+ALTER TABLE use_cases DROP COLUMN IF EXISTS search_vector;
+
+CREATE TEMPORARY TABLE legacy_taxonomy_values ON COMMIT DROP AS
+SELECT id AS use_case_id, 'INDUSTRY'::"TaxonomyType" AS type, btrim(regexp_replace(value, '\s+', ' ', 'g')) AS value
+FROM use_cases, regexp_split_to_table(industry, ';') AS value
+UNION ALL
+SELECT id, 'DEPARTMENT'::"TaxonomyType", btrim(regexp_replace(value, '\s+', ' ', 'g'))
+FROM use_cases, regexp_split_to_table(department, ';') AS value;
+
+DELETE FROM legacy_taxonomy_values WHERE value = '';
+
+-- Names and aliases of the existing terms by normalized key
+CREATE TEMPORARY TABLE taxonomy_keys ON COMMIT DROP AS
+SELECT t.id AS term_id, t.type, lower(btrim(regexp_replace(known, '\s+', ' ', 'g'))) AS key
+FROM taxonomy_terms t, unnest(array_prepend(t.name, t.aliases)) AS known;
+
+INSERT INTO taxonomy_terms (type, name, sort_order, updated_at)
+SELECT
+  v.type,
+  v.name,
+  (SELECT coalesce(max(t.sort_order) + 1, 0) FROM taxonomy_terms t WHERE t.type = v.type)
+    + row_number() OVER (PARTITION BY v.type ORDER BY v.key) - 1,
+  now()
+FROM (
+  SELECT DISTINCT ON (type, lower(value)) type, lower(value) AS key, value AS name
+  FROM legacy_taxonomy_values
+  GROUP BY type, value
+  ORDER BY type, lower(value), count(*) DESC, value
+) v
+WHERE NOT EXISTS (SELECT 1 FROM taxonomy_keys k WHERE k.type = v.type AND k.key = v.key);
+
+INSERT INTO taxonomy_keys (term_id, type, key)
+SELECT t.id, t.type, lower(t.name)
+FROM taxonomy_terms t
+WHERE NOT EXISTS (SELECT 1 FROM taxonomy_keys k WHERE k.term_id = t.id);
+
+-- Link tables as created by `prisma db push` for the implicit many-to-many
+-- relations: "A" is the taxonomy term, "B" the use case
+CREATE TABLE "_UseCaseIndustries" ("A" INTEGER NOT NULL, "B" INTEGER NOT NULL);
+CREATE UNIQUE INDEX "_UseCaseIndustries_AB_unique" ON "_UseCaseIndustries"("A", "B");
+CREATE INDEX "_UseCaseIndustries_B_index" ON "_UseCaseIndustries"("B");
+ALTER TABLE "_UseCaseIndustries" ADD CONSTRAINT "_UseCaseIndustries_A_fkey"
+  FOREIGN KEY ("A") REFERENCES taxonomy_terms(id) ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "_UseCaseIndustries" ADD CONSTRAINT "_UseCaseIndustries_B_fkey"
+  FOREIGN KEY ("B") REFERENCES use_cases(id) ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE TABLE "_UseCaseDepartments" ("A" INTEGER NOT NULL, "B" INTEGER NOT NULL);
+CREATE UNIQUE INDEX "_UseCaseDepartments_AB_unique" ON "_UseCaseDepartments"("A", "B");
+CREATE INDEX "_UseCaseDepartments_B_index" ON "_UseCaseDepartments"("B");
+ALTER TABLE "_UseCaseDepartments" ADD CONSTRAINT "_UseCaseDepartments_A_fkey"
+  FOREIGN KEY ("A") REFERENCES taxonomy_terms(id) ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "_UseCaseDepartments" ADD CONSTRAINT "_UseCaseDepartments_B_fkey"
+  FOREIGN KEY ("B") REFERENCES use_cases(id) ON DELETE CASCADE ON UPDATE CASCADE;
+
+INSERT INTO "_UseCaseIndustries" ("A", "B")
+SELECT DISTINCT k.term_id, v.use_case_id
+FROM legacy_taxonomy_values v
+JOIN taxonomy_keys k ON k.type = v.type AND k.key = lower(v.value)
+WHERE v.type = 'INDUSTRY';
+
+INSERT INTO "_UseCaseDepartments" ("A", "B")
+SELECT DISTINCT k.term_id, v.use_case_id
+FROM legacy_taxonomy_values v
+JOIN taxonomy_keys k ON k.type = v.type AND k.key = lower(v.value)
+WHERE v.type = 'DEPARTMENT';
+
+ALTER TABLE use_cases DROP COLUMN industry, DROP COLUMN department;
+
+COMMIT;
@@ -0,0 +1,195 @@
+/**
+ * Import Column Mapping
+ *
+ * Maps spreadsheet headers to use case fields. Without a mapping file the
+ * importer expects the default headers (the same ones the export writes).
+ * A mapping file (JSON or YAML) can rename headers per field and transform
+ * values:
+ *
+ *   columns:
+ *     useCase: Title
+ *     conceptDescription: Description
+ *     industries:
+ *       header: Sector
+ *       transforms:
+ *         - lowercase
+ *         - default: Cross-Industry
+ *     valueChainStep:
+ *       header: Process
+ *       transforms:
+ *         - split: "/"       # keep the first part (or `index: n`)
+ *
+ * Fields that are not listed keep their default header. Industry and
+ * department cells may hold several values separated by ";", which the
+ * importer splits after the transforms.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { UseCaseSnapshot } from './revisions';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+// Tags are not part of the import files
+export type MappedField = Exclude<keyof UseCaseSnapshot, 'tags'>;
+
+export type ValueTransform =
+  | { type: 'lowercase' }
+  | { type: 'split'; separator: string; index: number }
+  | { type: 'default'; value: string };
+
+export interface ColumnRule {
+  header: string;
+  transforms: ValueTransform[];
+}
+
+export type ColumnMapping = Record<MappedField, ColumnRule>;
+
+// Raw record as read from the file, keyed by header
+export type SourceRecord = Record<string, string | undefined>;
+
+// Record keyed by use case field after applying the mapping
+export type MappedRow = Record<MappedField, string | undefined>;
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const DEFAULT_COLUMN_HEADERS: Record<MappedField, string> = {
+  useCase: 'Use Case',
+  conceptDescription: 'Concept description',
+  concreteImplementation: 'Concrete implementation',
+  benefit: 'Benefit',
+  industries: 'Industry',
+  departments: 'Department',
+  valueChainStep: 'Value Chain Step',
+  url: 'URL',
+};
+
+const MAPPED_FIELDS = Object.keys(DEFAULT_COLUMN_HEADERS) as MappedField[];
+
+export const DEFAULT_COLUMN_MAPPING: ColumnMapping = Object.fromEntries(
+  MAPPED_FIELDS.map((field): [MappedField, ColumnRule] => [
+    field,
+    { header: DEFAULT_COLUMN_HEADERS[field], transforms: [] },
+  ])
+) as ColumnMapping;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Reads one transform entry: "lowercase", { split: ";", index?: n } or { default: "..." }
+ */
+function parseTransform(entry: unknown, field: string): ValueTransform {
+  if (entry === 'lowercase') {
+    return { type: 'lowercase' };
+  }
+
+  if (isObject(entry) && typeof entry['split'] === 'string' && entry['split'].length > 0) {
+    const index = entry['index'] ?? 0;
+    if (typeof index !== 'number' || !Number.isInteger(index) || index < 0) {
+      throw new Error(`Mapping for "${field}": split index must be a non-negative integer`);
+    }
+    return { type: 'split', separator: entry['split'], index };
+  }
+
+  if (isObject(entry) && typeof entry['default'] === 'string') {
+    return { type: 'default', value: entry['default'] };
+  }
+
+  throw new Error(
+    `Mapping for "${field}": unknown transform ${JSON.stringify(entry)}, expected lowercase, { split } or { default }`
+  );
+}
+
+/**
+ * Validates a parsed mapping ({ columns: { field: rule } }) and fills in
+ * the default headers of fields that are not listed
+ */
+export function parseColumnMapping(parsed: unknown): ColumnMapping {
+  if (!isObject(parsed) || !isObject(parsed['columns'])) {
+    throw new Error('Mapping must contain a "columns" object');
+  }
+
+  const mapping: ColumnMapping = { ...DEFAULT_COLUMN_MAPPING };
+
+  for (const [field, rule] of Object.entries(parsed['columns'])) {
+    if (!MAPPED_FIELDS.includes(field as MappedField)) {
+      throw new Error(`Unknown field "${field}" in mapping, expected one of: ${MAPPED_FIELDS.join(', ')}`);
+    }
+
+    if (typeof rule === 'string') {
+      mapping[field as MappedField] = { header: rule, transforms: [] };
+      continue;
+    }
+
+    if (!isObject(rule) || typeof rule['header'] !== 'string') {
+      throw new Error(`Mapping for "${field}" must be a header name or an object with a "header"`);
+    }
+
+    const transforms = rule['transforms'] ?? [];
+    if (!Array.isArray(transforms)) {
+      throw new Error(`Mapping for "${field}": transforms must be a list`);
+    }
+
+    mapping[field as MappedField] = {
+      header: rule['header'],
+      transforms: transforms.map((entry) => parseTransform(entry, field)),
+    };
+  }
+
+  return mapping;
+}
+
+/**
+ * Loads and validates a JSON or YAML mapping file
+ */
+export function loadColumnMapping(filePath: string): ColumnMapping {
+  const content = fs.readFileSync(filePath, 'utf-8');
+  const extension = path.extname(filePath).toLowerCase();
+  return parseColumnMapping(extension === '.yaml' || extension === '.yml' ? parseYaml(content) : JSON.parse(content));
+}
+
+/**
+ * Applies the transforms in order. Defaults only fill empty values.
+ */
+function applyTransforms(value: string | undefined, transforms: ValueTransform[]): string | undefined {
+  return transforms.reduce<string | undefined>((current, transform) => {
+    switch (transform.type) {
+      case 'lowercase':
+        return current?.toLowerCase();
+      case 'split':
+        return current
+          ?.split(transform.separator)
+          .map((part) => part.trim())
+          .filter((part) => part.length > 0)[transform.index];
+      case 'default':
+        return current?.trim() ? current : transform.value;
+    }
+  }, value);
+}
+
+/**
+ * Maps a raw record to use case fields. Headers match case-insensitively
+ * and ignore surrounding whitespace.
+ */
+export function applyColumnMapping(mapping: ColumnMapping, record: SourceRecord): MappedRow {
+  const valuesByHeader = new Map(
+    Object.entries(record).map(([header, value]) => [header.trim().toLowerCase(), value])
+  );
+
+  return Object.fromEntries(
+    MAPPED_FIELDS.map((field) => {
+      const { header, transforms } = mapping[field];
+      return [field, applyTransforms(valuesByHeader.get(header.trim().toLowerCase()), transforms)];
+    })
+  ) as MappedRow;
+}
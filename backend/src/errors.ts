@@ -0,0 +1,53 @@
+/**
+ * Error Classes
+ *
+ * Errors carrying the HTTP status the API responds with. Thrown by the route
+ * handlers and by shared logic that runs on behalf of a request, such as the
+ * import rollback; the server's error handler turns them into responses.
+ */
+
+import { ValidationError } from 'express-validator';
+
+export class AppError extends Error {
+  public readonly statusCode: number;
+  public readonly isOperational: boolean;
+
+  constructor(message: string, statusCode: number, isOperational = true) {
+    super(message);
+    this.statusCode = statusCode;
+    this.isOperational = isOperational;
+    Object.setPrototypeOf(this, AppError.prototype);
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+export class ValidationAppError extends AppError {
+  public readonly errors: ValidationError[];
+
+  constructor(errors: ValidationError[]) {
+    super('Validation failed', 400, true);
+    this.errors = errors;
+    Object.setPrototypeOf(this, ValidationAppError.prototype);
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(resource: string, id: string | number) {
+    super(`${resource} with id ${id} not found`, 404, true);
+    Object.setPrototypeOf(this, NotFoundError.prototype);
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(message = 'Unauthorized: Invalid or missing credentials') {
+    super(message, 401, true);
+    Object.setPrototypeOf(this, UnauthorizedError.prototype);
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message = 'Forbidden: Insufficient role for this action') {
+    super(message, 403, true);
+    Object.setPrototypeOf(this, ForbiddenError.prototype);
+  }
+}
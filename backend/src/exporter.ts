@@ -0,0 +1,119 @@
+/**
+ * Use Case Export
+ *
+ * Streams use cases as CSV, XLSX or JSON. All formats use the column headers
+ * the import script expects, so an export can be re-imported as is. Several
+ * industries or departments are written to one cell separated by "; ".
+ */
+
+import { stringify } from 'csv-stringify';
+import ExcelJS from 'exceljs';
+import { Readable, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { DEFAULT_COLUMN_HEADERS, MappedField } from './columnMapping';
+import { toSnapshot, UseCaseWithTerms } from './revisions';
+import { TAXONOMY_VALUE_SEPARATOR } from './taxonomy';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx', 'json'];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json; charset=utf-8',
+};
+
+// Written with the importer's default headers
+export const EXPORT_COLUMNS: Array<{ field: MappedField; header: string; width: number }> = (
+  [
+    ['useCase', 40],
+    ['conceptDescription', 60],
+    ['concreteImplementation', 60],
+    ['benefit', 60],
+    ['industries', 25],
+    ['departments', 25],
+    ['valueChainStep', 25],
+    ['url', 40],
+  ] as const
+).map(([field, width]) => ({ field, header: DEFAULT_COLUMN_HEADERS[field], width }));
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Maps a use case to a record keyed by the import column headers
+ */
+function toExportRecord(useCase: UseCaseWithTerms): Record<string, string> {
+  const snapshot = toSnapshot(useCase);
+  return Object.fromEntries(
+    EXPORT_COLUMNS.map(({ field, header }) => {
+      const value = snapshot[field];
+      return [header, Array.isArray(value) ? value.join(`${TAXONOMY_VALUE_SEPARATOR} `) : value ?? ''];
+    })
+  );
+}
+
+async function* toJsonChunks(useCases: AsyncIterable<UseCaseWithTerms>): AsyncGenerator<string> {
+  let first = true;
+  yield '[';
+  for await (const useCase of useCases) {
+    yield `${first ? '\n' : ',\n'}${JSON.stringify(toExportRecord(useCase))}`;
+    first = false;
+  }
+  yield '\n]\n';
+}
+
+async function* toCsvRecords(useCases: AsyncIterable<UseCaseWithTerms>): AsyncGenerator<Record<string, string>> {
+  for await (const useCase of useCases) {
+    yield toExportRecord(useCase);
+  }
+}
+
+async function writeXlsx(useCases: AsyncIterable<UseCaseWithTerms>, output: Writable): Promise<void> {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: false });
+  const sheet = workbook.addWorksheet('Use Cases');
+  sheet.columns = EXPORT_COLUMNS.map(({ header, width }) => ({ header, key: header, width }));
+
+  for await (const useCase of useCases) {
+    sheet.addRow(toExportRecord(useCase)).commit();
+  }
+
+  sheet.commit();
+  await workbook.commit();
+}
+
+/**
+ * Streams the use cases to the output in the requested format
+ */
+export async function writeExport(
+  format: ExportFormat,
+  useCases: AsyncIterable<UseCaseWithTerms>,
+  output: Writable
+): Promise<void> {
+  switch (format) {
+    case 'csv':
+      // The byte order mark makes Excel open the file as UTF-8
+      await pipeline(
+        Readable.from(toCsvRecords(useCases)),
+        stringify({ header: true, columns: EXPORT_COLUMNS.map(({ header }) => header), bom: true }),
+        output
+      );
+      break;
+    case 'xlsx':
+      await writeXlsx(useCases, output);
+      break;
+    case 'json':
+      await pipeline(Readable.from(toJsonChunks(useCases)), output);
+      break;
+  }
+}
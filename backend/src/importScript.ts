@@ -1,22 +1,62 @@
 /**
- * CSV Import Script for Use Case Library
+ * Import Script for Use Case Library
  * 
- * This script reads Use_Case_Library.csv from the backend root directory
+ * This script reads a CSV, Excel (.xlsx), JSON or JSONL file
+ * (Use_Case_Library.csv in the backend root directory unless --file is given)
  * and imports valid use cases into the database.
  * 
  * Features:
  * - Skips rows with empty "Use Case" or "Concept description" fields
  * - Idempotent: checks for existing use cases before inserting
+ * - Records a CREATE revision for every inserted use case
+ * - Records every run as an import batch that can be rolled back via the API
  * - Provides detailed logging and summary statistics
+ * - Dry-run mode that validates every row against the API rules without
+ *   writing, and a JSON or CSV report of all issues with row numbers
+ * - Import modes:
+ *   - insert (default): only adds new use cases, existing ones are skipped
+ *   - upsert: also updates changed fields of existing use cases
+ *   - sync: upsert, then archives published use cases missing from the file
+ * - Column mapping file (JSON or YAML) for spreadsheets with other headers,
+ *   see columnMapping.ts
+ * - Industry, department and value chain step values are mapped to their
+ *   canonical taxonomy term, so aliases and other spellings are normalized;
+ *   industry and department cells can hold several values ("Retail; Banking");
+ *   rows with an unknown industry or department are skipped unless
+ *   --create-terms adds them as new terms
  * 
- * Usage: npm run import
+ * Usage: npm run import -- [--file=partners.csv] [--delimiter=";"] [--encoding=windows-1252]
+ *                          [--file=collection.xlsx --sheet="Use Cases"] [--format=csv|xlsx|json|jsonl]
+ *                          [--mapping=mapping.yaml] [--mode=upsert|sync] [--dry-run]
+ *                          [--create-terms] [--report=import-report.csv]
  */
 
 import { PrismaClient } from '@prisma/client';
-import { parse } from 'csv-parse';
+import { stringify } from 'csv-stringify/sync';
 import * as fs from 'fs';
 import * as path from 'path';
+import { parseArgs } from 'util';
 import dotenv from 'dotenv';
+import { recordRevision, useCaseTermsInclude } from './revisions';
+import { applyColumnMapping, DEFAULT_COLUMN_MAPPING, loadColumnMapping, MappedRow } from './columnMapping';
+import { detectImportFormat, IMPORT_FORMATS, ImportFormat, readSourceRows } from './importSources';
+import {
+  applyPlannedRow,
+  countAppliedRow,
+  countFailedRow,
+  createImportBatch,
+  createImportStats,
+  createRowPlanner,
+  describePlannedRow,
+  finishImportBatch,
+  IMPORT_MODES,
+  ImportMode,
+  ImportOutcome,
+  ImportStats,
+  normalizeValue,
+  RowIssue,
+  toFailedOutcome,
+} from './importer';
 
 // Load environment variables
 dotenv.config();
@@ -26,55 +66,45 @@ const prisma = new PrismaClient({
   log: ['error', 'warn'],
 });
 
+// Recorded as the author of revisions created by this script
+const IMPORT_ACTOR = 'import-script';
+
+// Stored as the revision comment of use cases archived by a sync
+const SYNC_ARCHIVE_COMMENT = 'Missing from the import file';
+
+// Written by --dry-run when no --report path is given
+const DEFAULT_REPORT_FILE = 'import-report.json';
+
+const DEFAULT_IMPORT_FILE = path.join(__dirname, '..', 'Use_Case_Library.csv');
+
+// Lets a tab delimiter be passed without shell quoting
+const DELIMITER_ALIASES: Record<string, string> = {
+  tab: '\t',
+  '\\t': '\t',
+};
+
+
 // =============================================================================
 // INTERFACES
 // =============================================================================
 
-interface CsvRow {
-  'Use Case'?: string;
-  'Concept description'?: string;
-  'Concrete implementation'?: string;
-  'Benefit'?: string;
-  'Industry'?: string;
-  'Department'?: string;
-  'Value Chain Step'?: string;
-  'URL'?: string;
-  [key: string]: string | undefined;
-}
-
-interface ImportStats {
-  totalRows: number;
-  inserted: number;
-  skipped: number;
-  duplicates: number;
-  errors: number;
-  errorDetails: Array<{ row: number; reason: string }>;
+interface ImportOptions {
+  filePath: string;
+  format: ImportFormat;
+  delimiter: string;
+  encoding: string;
+  sheet: string | null;
+  mappingPath: string | null;
+  mode: ImportMode;
+  dryRun: boolean;
+  createTerms: boolean;
+  reportPath: string | null;
 }
 
 // =============================================================================
 // UTILITY FUNCTIONS
 // =============================================================================
 
-/**
- * Normalizes a string value from CSV
- * Returns null if the value is empty or only whitespace
- */
-function normalizeValue(value: string | undefined | null): string | null {
-  if (value === undefined || value === null) {
-    return null;
-  }
-  const trimmed = value.trim();
-  return trimmed.length > 0 ? trimmed : null;
-}
-
-/**
- * Validates URL format
- */
-function isValidUrl(url: string): boolean {
-  const urlRegex = /^(https?:\/\/)?([\da-z.-]+)\.([a-z.]{2,6})([/\w .-]*)*\/?$/i;
-  return urlRegex.test(url);
-}
-
 /**
  * Formats duration in human-readable format
  */
@@ -90,157 +120,274 @@ function formatDuration(ms: number): string {
   return `${seconds}s`;
 }
 
+/**
+ * Reads the command line flags
+ */
+function parseOptions(): ImportOptions {
+  const { values } = parseArgs({
+    options: {
+      file: { type: 'string' },
+      format: { type: 'string' },
+      delimiter: { type: 'string' },
+      encoding: { type: 'string', default: 'utf-8' },
+      sheet: { type: 'string' },
+      mapping: { type: 'string' },
+      mode: { type: 'string', default: 'insert' },
+      'dry-run': { type: 'boolean', default: false },
+      'create-terms': { type: 'boolean', default: false },
+      report: { type: 'string' },
+    },
+  });
+  const mode = values.mode ?? 'insert';
+  const dryRun = values['dry-run'] ?? false;
+  const report = values.report ?? (dryRun ? DEFAULT_REPORT_FILE : null);
+
+  if (!IMPORT_MODES.includes(mode as ImportMode)) {
+    throw new Error(`Unknown mode "${mode}", expected one of: ${IMPORT_MODES.join(', ')}`);
+  }
+
+  const filePath = values.file ? path.resolve(values.file) : DEFAULT_IMPORT_FILE;
+  const format = values.format ?? detectImportFormat(filePath);
+  if (!format || !IMPORT_FORMATS.includes(format as ImportFormat)) {
+    throw new Error(`Cannot import "${filePath}", pass --format with one of: ${IMPORT_FORMATS.join(', ')}`);
+  }
+
+  // Tab-separated files need no --delimiter
+  const delimiter = values.delimiter ?? (path.extname(filePath).toLowerCase() === '.tsv' ? 'tab' : ',');
+
+  return {
+    filePath,
+    format: format as ImportFormat,
+    delimiter: DELIMITER_ALIASES[delimiter] ?? delimiter,
+    encoding: values.encoding ?? 'utf-8',
+    sheet: values.sheet ?? null,
+    mappingPath: values.mapping ? path.resolve(values.mapping) : null,
+    mode: mode as ImportMode,
+    dryRun,
+    createTerms: values['create-terms'] ?? false,
+    reportPath: report ? path.resolve(report) : null,
+  };
+}
+
+/**
+ * Writes the issues as CSV or JSON, depending on the file extension
+ */
+function writeReport(
+  reportPath: string,
+  options: ImportOptions,
+  stats: ImportStats,
+  issues: RowIssue[]
+): void {
+  if (path.extname(reportPath).toLowerCase() === '.csv') {
+    fs.writeFileSync(
+      reportPath,
+      stringify(issues, {
+        header: true,
+        columns: ['row', 'severity', 'field', 'useCase', 'message'],
+        bom: true,
+      })
+    );
+    return;
+  }
+
+  const { errorDetails: _errorDetails, ...summary } = stats;
+  const report = {
+    file: options.filePath,
+    generatedAt: new Date().toISOString(),
+    dryRun: options.dryRun,
+    summary,
+    issues,
+  };
+  fs.writeFileSync(reportPath, `${JSON.stringify(report, null, 2)}\n`);
+}
+
 // =============================================================================
 // MAIN IMPORT LOGIC
 // =============================================================================
 
+/**
+ * Archives published use cases whose name does not appear in the file.
+ * Rows that were skipped still count as present, so a single invalid row
+ * never archives its use case. Drafts and submissions under review are
+ * left alone because they have not made it into the file yet.
+ */
+async function archiveMissingUseCases(
+  rows: MappedRow[],
+  options: ImportOptions,
+  stats: ImportStats,
+  outcomes: ImportOutcome[]
+): Promise<void> {
+  const namesInFile = new Set(
+    rows.flatMap((row) => normalizeValue(row.useCase)?.toLowerCase() ?? [])
+  );
+  const published = await prisma.useCase.findMany({
+    where: { status: 'PUBLISHED' },
+    select: { id: true, useCase: true },
+  });
+  const missing = published.filter(({ useCase }) => !namesInFile.has(useCase.toLowerCase()));
+
+  for (const { id, useCase } of missing) {
+    if (!options.dryRun) {
+      await prisma.$transaction(async (tx) => {
+        const archived = await tx.useCase.update({
+          where: { id },
+          data: { status: 'ARCHIVED', reviewComment: SYNC_ARCHIVE_COMMENT },
+          include: useCaseTermsInclude,
+        });
+        await recordRevision(tx, archived, 'ARCHIVE', IMPORT_ACTOR, SYNC_ARCHIVE_COMMENT);
+      });
+    }
+
+    stats.archived++;
+    outcomes.push({ row: null, action: 'archive', useCaseId: id, useCase, before: null, after: null, message: null });
+    console.log(`🗄️  ${options.dryRun ? 'Would archive' : 'Archived'} #${id} - "${useCase.substring(0, 50)}..."`);
+  }
+}
+
 async function importUseCases(): Promise<void> {
   const startTime = Date.now();
-  const csvFilePath = path.join(__dirname, '..', 'Use_Case_Library.csv');
+  const options = parseOptions();
+  const filePath = options.filePath;
 
   console.log('='.repeat(70));
-  console.log('📊 USE CASE LIBRARY IMPORT SCRIPT');
+  console.log(options.dryRun ? '📊 USE CASE LIBRARY IMPORT SCRIPT (DRY RUN)' : '📊 USE CASE LIBRARY IMPORT SCRIPT');
   console.log('='.repeat(70));
-  console.log(`📁 CSV File: ${csvFilePath}`);
+  console.log(`📁 File: ${filePath} (${options.format}${options.sheet ? `, sheet ${options.sheet}` : ''})`);
+  console.log(`🗺️  Column Mapping: ${options.mappingPath ?? 'default headers'}`);
+  console.log(`🔧 Mode: ${options.mode}`);
   console.log(`🕐 Started at: ${new Date().toISOString()}`);
   console.log('='.repeat(70));
 
   // Check if file exists
-  if (!fs.existsSync(csvFilePath)) {
-    console.error(`\n❌ ERROR: CSV file not found at: ${csvFilePath}`);
-    console.error('Please ensure Use_Case_Library.csv is in the backend root directory.');
+  if (!fs.existsSync(filePath)) {
+    console.error(`\n❌ ERROR: File not found at: ${filePath}`);
+    console.error('Pass the file with --file or place Use_Case_Library.csv in the backend root directory.');
     process.exit(1);
   }
 
   // Initialize statistics
-  const stats: ImportStats = {
-    totalRows: 0,
-    inserted: 0,
-    skipped: 0,
-    duplicates: 0,
-    errors: 0,
-    errorDetails: [],
-  };
+  const stats = createImportStats();
+  const issues: RowIssue[] = [];
+  const outcomes: ImportOutcome[] = [];
+  let batchId: number | null = null;
+  let failed = false;
 
   try {
     // Test database connection
     await prisma.$connect();
     console.log('✅ Database connection established\n');
 
-    // Read and parse CSV file
-    const fileContent = fs.readFileSync(csvFilePath, 'utf-8');
-    
-    // Configure parser with robust options
-    const parser = parse(fileContent, {
-      columns: true,
-      skip_empty_lines: true,
-      trim: true,
-      bom: true, // Handle BOM characters
-      relax_column_count: true, // Handle inconsistent column counts
-      skip_records_with_error: true,
+    // Read the file and map its columns to use case fields
+    const mapping = options.mappingPath ? loadColumnMapping(options.mappingPath) : DEFAULT_COLUMN_MAPPING;
+    const sourceRows = await readSourceRows(fs.readFileSync(filePath), options.format, {
+      delimiter: options.delimiter,
+      encoding: options.encoding,
+      ...(options.sheet ? { sheet: options.sheet } : {}),
     });
-
-    const records: CsvRow[] = [];
-    for await (const record of parser) {
-      records.push(record as CsvRow);
-    }
+    const records = sourceRows.map(({ rowNumber, record }) => ({
+      rowNumber,
+      row: applyColumnMapping(mapping, record),
+    }));
 
     stats.totalRows = records.length;
-    console.log(`📝 Found ${stats.totalRows} rows in CSV file\n`);
+    console.log(`📝 Found ${stats.totalRows} rows in the file\n`);
 
-    // Process each row
-    for (let i = 0; i < records.length; i++) {
-      const row = records[i];
-      const rowNumber = i + 2; // Account for header row and 0-indexing
+    // A sync of an empty file would archive the whole library
+    if (options.mode === 'sync' && records.length === 0) {
+      throw new Error('The file contains no rows, refusing to archive every use case');
+    }
 
-      if (row === undefined) {
-        continue;
-      }
+    const planRow = createRowPlanner(prisma, mapping, options.mode, options.createTerms);
+    batchId = options.dryRun
+      ? null
+      : await createImportBatch(prisma, path.basename(filePath), options.mode, IMPORT_ACTOR);
 
+    // Process each row
+    for (const record of records) {
+      const { rowNumber } = record;
       try {
-        // Extract and normalize values
-        const useCase = normalizeValue(row['Use Case']);
-        const conceptDescription = normalizeValue(row['Concept description']);
-
-        // Skip rows with empty required fields
-        if (!useCase) {
-          stats.skipped++;
-          stats.errorDetails.push({
-            row: rowNumber,
-            reason: 'Empty "Use Case" field',
-          });
-          console.log(`⏭️  Row ${rowNumber}: Skipped - Empty "Use Case" field`);
-          continue;
+        const planned = await planRow(record);
+        let outcome = describePlannedRow(planned);
+        issues.push(...planned.issues);
+
+        planned.issues
+          .filter(({ severity }) => severity === 'warning')
+          .forEach(({ message }) => console.warn(`⚠️  Row ${rowNumber}: ${message}`));
+
+        const label = `"${planned.useCase?.substring(0, 50)}..."`;
+        switch (planned.action) {
+          case 'skip':
+            console.log(
+              `⏭️  Row ${rowNumber}: Skipped - ${planned.issues.find(({ severity }) => severity === 'error')?.message}`
+            );
+            break;
+          case 'duplicate':
+            console.log(`🔄 Row ${rowNumber}: ${planned.issues[planned.issues.length - 1]?.message} - ${label}`);
+            break;
+          case 'update':
+            if (!options.dryRun) {
+              outcome = await applyPlannedRow(prisma, planned, IMPORT_ACTOR, batchId, options.createTerms);
+            }
+            if (outcome.action === 'error') {
+              break;
+            }
+            console.log(
+              `✏️  Row ${rowNumber}: ${options.dryRun ? 'Would update' : 'Updated'} - ${label} (${planned.changedFields.join(', ')})`
+            );
+            break;
+          case 'insert':
+            if (!options.dryRun) {
+              outcome = await applyPlannedRow(prisma, planned, IMPORT_ACTOR, batchId, options.createTerms);
+              if (outcome.action !== 'error') {
+                console.log(`✅ Row ${rowNumber}: Inserted - ${label}`);
+              }
+            }
+            break;
+          case 'unchanged':
+            break;
         }
 
-        if (!conceptDescription) {
-          stats.skipped++;
-          stats.errorDetails.push({
-            row: rowNumber,
-            reason: 'Empty "Concept description" field',
-          });
-          console.log(`⏭️  Row ${rowNumber}: Skipped - Empty "Concept description" field`);
-          continue;
+        // Rows the library no longer allows to write as planned
+        const issue = countAppliedRow(stats, planned, outcome);
+        if (issue) {
+          issues.push(issue);
+          console.error(`❌ Row ${rowNumber}: Not written - ${issue.message}`);
         }
-
-        // Check for existing use case (idempotency)
-        const existing = await prisma.useCase.findFirst({
-          where: {
-            useCase: {
-              equals: useCase,
-              mode: 'insensitive',
-            },
-          },
-        });
-
-        if (existing) {
-          stats.duplicates++;
-          console.log(`🔄 Row ${rowNumber}: Duplicate - "${useCase.substring(0, 50)}..."`);
-          continue;
-        }
-
-        // Validate and extract optional fields
-        const url = normalizeValue(row['URL']);
-        if (url && !isValidUrl(url)) {
-          console.warn(`⚠️  Row ${rowNumber}: Invalid URL format, storing as-is: ${url}`);
-        }
-
-        // Insert new use case
-        await prisma.useCase.create({
-          data: {
-            useCase,
-            conceptDescription,
-            concreteImplementation: normalizeValue(row['Concrete implementation']),
-            benefit: normalizeValue(row['Benefit']),
-            industry: normalizeValue(row['Industry']),
-            department: normalizeValue(row['Department']),
-            valueChainStep: normalizeValue(row['Value Chain Step']),
-            url,
-          },
-        });
-
-        stats.inserted++;
-        console.log(`✅ Row ${rowNumber}: Inserted - "${useCase.substring(0, 50)}..."`);
-
+        outcomes.push(outcome);
       } catch (error) {
-        stats.errors++;
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        stats.errorDetails.push({
-          row: rowNumber,
-          reason: errorMessage,
-        });
-        console.error(`❌ Row ${rowNumber}: Error - ${errorMessage}`);
+        const issue = countFailedRow(stats, rowNumber, normalizeValue(record.row.useCase), error);
+        issues.push(issue);
+        outcomes.push(toFailedOutcome(issue));
+        console.error(`❌ Row ${rowNumber}: Error - ${issue.message}`);
       }
     }
 
+    if (options.mode === 'sync') {
+      await archiveMissingUseCases(records.map(({ row }) => row), options, stats, outcomes);
+    }
   } catch (error) {
     console.error('\n❌ FATAL ERROR during import:');
     console.error(error instanceof Error ? error.message : error);
-    process.exit(1);
+    failed = true;
   } finally {
+    // Record what was written even after a fatal error, so the batch can be rolled back
+    if (batchId !== null) {
+      try {
+        await finishImportBatch(prisma, batchId, stats, outcomes);
+        console.log(`\n🗂️  Recorded as import batch #${batchId}`);
+      } catch (error) {
+        console.error(`\n❌ Could not record the outcomes of import batch #${batchId}:`);
+        console.error(error instanceof Error ? error.message : error);
+        failed = true;
+      }
+    }
     await prisma.$disconnect();
   }
 
+  if (failed) {
+    process.exit(1);
+  }
+
   // Print summary
   const duration = Date.now() - startTime;
   
@@ -248,13 +395,38 @@ async function importUseCases(): Promise<void> {
   console.log('📊 IMPORT SUMMARY');
   console.log('='.repeat(70));
   console.log(`📝 Total Rows Processed: ${stats.totalRows}`);
-  console.log(`✅ Successfully Inserted: ${stats.inserted}`);
+  console.log(options.dryRun ? `✅ Would Be Inserted: ${stats.inserted}` : `✅ Successfully Inserted: ${stats.inserted}`);
+  if (options.mode !== 'insert') {
+    console.log(options.dryRun ? `✏️  Would Be Updated: ${stats.updated}` : `✏️  Updated: ${stats.updated}`);
+    console.log(`➖ Unchanged: ${stats.unchanged}`);
+  }
+  if (options.mode === 'sync') {
+    console.log(options.dryRun ? `🗄️  Would Be Archived: ${stats.archived}` : `🗄️  Archived: ${stats.archived}`);
+  }
   console.log(`⏭️  Skipped (Empty Fields): ${stats.skipped}`);
   console.log(`🔄 Skipped (Duplicates): ${stats.duplicates}`);
   console.log(`❌ Errors: ${stats.errors}`);
+  console.log(`⚠️  Warnings: ${issues.filter(({ severity }) => severity === 'warning').length}`);
   console.log(`⏱️  Duration: ${formatDuration(duration)}`);
   console.log('='.repeat(70));
 
+  // Per-field change summary
+  const fieldChanges = Object.entries(stats.fieldChanges);
+  if (fieldChanges.length > 0) {
+    console.log('\n📋 CHANGED FIELDS:');
+    console.log('-'.repeat(70));
+    fieldChanges
+      .sort(([, a], [, b]) => b - a)
+      .forEach(([field, count]) => {
+        console.log(`  ${field}: ${count} use case${count === 1 ? '' : 's'}`);
+      });
+  }
+
+  if (options.reportPath) {
+    writeReport(options.reportPath, options, stats, issues);
+    console.log(`\n📄 Report with ${issues.length} issues written to: ${options.reportPath}`);
+  }
+
   // Print error details if any
   if (stats.errorDetails.length > 0 && stats.errorDetails.length <= 20) {
     console.log('\n📋 SKIPPED/ERROR DETAILS:');
@@ -275,6 +447,9 @@ async function importUseCases(): Promise<void> {
   if (stats.errors > 0) {
     console.log('\n⚠️  Import completed with errors. Please review the details above.');
     process.exit(1);
+  } else if (options.dryRun) {
+    console.log('\n✅ Dry run completed, nothing was written to the database.');
+    process.exit(0);
   } else {
     console.log('\n✅ Import completed successfully!');
     process.exit(0);
@@ -0,0 +1,201 @@
+/**
+ * Import File Readers
+ *
+ * Reads CSV, Excel (.xlsx), JSON and JSONL files into raw records keyed by
+ * header, ready for the column mapping. Works on buffers so that both the
+ * import script and uploads can use it.
+ */
+
+import { parse } from 'csv-parse';
+import ExcelJS from 'exceljs';
+import * as path from 'path';
+import { SourceRecord } from './columnMapping';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ImportFormat = 'csv' | 'xlsx' | 'json' | 'jsonl';
+
+export interface SourceRow {
+  // Row number as the supplier sees it: spreadsheet row, JSON entry or JSONL line
+  rowNumber: number;
+  record: SourceRecord;
+}
+
+export interface ReadOptions {
+  // CSV only
+  delimiter?: string;
+  // CSV, JSON and JSONL; any label TextDecoder supports
+  encoding?: string;
+  // XLSX only: sheet name or 1-based position, defaults to the first sheet
+  sheet?: string;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const IMPORT_FORMATS: ImportFormat[] = ['csv', 'xlsx', 'json', 'jsonl'];
+
+const FORMATS_BY_EXTENSION: Record<string, ImportFormat> = {
+  '.csv': 'csv',
+  '.tsv': 'csv',
+  '.txt': 'csv',
+  '.xlsx': 'xlsx',
+  '.json': 'json',
+  '.jsonl': 'jsonl',
+  '.ndjson': 'jsonl',
+};
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Picks the format from the file extension
+ */
+export function detectImportFormat(fileName: string): ImportFormat | null {
+  return FORMATS_BY_EXTENSION[path.extname(fileName).toLowerCase()] ?? null;
+}
+
+/**
+ * Converts a JSON value to cell text. Lists are joined with "; ".
+ */
+function toCellText(value: unknown): string | undefined {
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+  if (Array.isArray(value)) {
+    return value.map(toCellText).filter((item) => item !== undefined).join('; ');
+  }
+  if (typeof value === 'object') {
+    return undefined;
+  }
+  return String(value);
+}
+
+function toSourceRecord(value: unknown, position: string): SourceRecord {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`${position} is not an object`);
+  }
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).map(([key, item]) => [key, toCellText(item)])
+  );
+}
+
+// TextDecoder also drops a leading byte order mark
+const decode = (buffer: Buffer, encoding: string | undefined): string =>
+  new TextDecoder(encoding ?? 'utf-8').decode(buffer);
+
+async function readCsv(buffer: Buffer, options: ReadOptions): Promise<SourceRow[]> {
+  // Configure parser with robust options
+  const parser = parse(decode(buffer, options.encoding), {
+    columns: true,
+    delimiter: options.delimiter ?? ',',
+    skip_empty_lines: true,
+    trim: true,
+    bom: true, // Handle BOM characters
+    relax_column_count: true, // Handle inconsistent column counts
+    skip_records_with_error: true,
+  });
+
+  const rows: SourceRow[] = [];
+  for await (const record of parser) {
+    // Account for header row and 1-based numbering
+    rows.push({ rowNumber: rows.length + 2, record: record as SourceRecord });
+  }
+  return rows;
+}
+
+async function readXlsx(buffer: Buffer, options: ReadOptions): Promise<SourceRow[]> {
+  const workbook = new ExcelJS.Workbook();
+  // exceljs declares its own Buffer type
+  await workbook.xlsx.load(buffer as unknown as Parameters<ExcelJS.Xlsx['load']>[0]);
+
+  const position = options.sheet && /^\d+$/.test(options.sheet) ? parseInt(options.sheet, 10) : null;
+  const worksheet = options.sheet
+    ? workbook.worksheets.find((sheet, index) => (position ? index + 1 === position : sheet.name === options.sheet))
+    : workbook.worksheets[0];
+
+  if (!worksheet) {
+    const names = workbook.worksheets.map((sheet) => `"${sheet.name}"`).join(', ');
+    throw new Error(
+      options.sheet ? `Sheet "${options.sheet}" not found, the workbook contains: ${names}` : 'The workbook has no sheets'
+    );
+  }
+
+  // The first row holds the headers; cell text keeps line breaks and umlauts
+  const headers: string[] = [];
+  worksheet.getRow(1).eachCell((cell, column) => {
+    headers[column] = cell.text.trim();
+  });
+
+  const rows: SourceRow[] = [];
+  worksheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) {
+      return;
+    }
+
+    const record: SourceRecord = {};
+    row.eachCell((cell, column) => {
+      const header = headers[column];
+      if (header) {
+        record[header] = cell.text;
+      }
+    });
+
+    if (Object.values(record).some((value) => value?.trim())) {
+      rows.push({ rowNumber, record });
+    }
+  });
+  return rows;
+}
+
+function readJson(buffer: Buffer, options: ReadOptions): SourceRow[] {
+  const parsed: unknown = JSON.parse(decode(buffer, options.encoding));
+  if (!Array.isArray(parsed)) {
+    throw new Error('JSON imports must contain an array of objects');
+  }
+  return parsed.map((entry, index) => ({
+    rowNumber: index + 1,
+    record: toSourceRecord(entry, `Entry ${index + 1}`),
+  }));
+}
+
+function readJsonLines(buffer: Buffer, options: ReadOptions): SourceRow[] {
+  return decode(buffer, options.encoding)
+    .split(/\r?\n/)
+    .flatMap((line, index) => {
+      if (!line.trim()) {
+        return [];
+      }
+      let entry: unknown;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        throw new Error(`Line ${index + 1} is not valid JSON`);
+      }
+      return [{ rowNumber: index + 1, record: toSourceRecord(entry, `Line ${index + 1}`) }];
+    });
+}
+
+/**
+ * Reads the raw records of an import file
+ */
+export async function readSourceRows(
+  buffer: Buffer,
+  format: ImportFormat,
+  options: ReadOptions = {}
+): Promise<SourceRow[]> {
+  switch (format) {
+    case 'csv':
+      return readCsv(buffer, options);
+    case 'xlsx':
+      return readXlsx(buffer, options);
+    case 'json':
+      return readJson(buffer, options);
+    case 'jsonl':
+      return readJsonLines(buffer, options);
+  }
+}
@@ -0,0 +1,843 @@
+/**
+ * Use Case Import Logic
+ *
+ * Validates mapped rows, classifies them against the existing library
+ * (insert, update, unchanged, duplicate or skip) and writes them together
+ * with their revisions. Every import is recorded as a batch with its per-row
+ * outcomes, which can be rolled back. Shared by the import script and the
+ * /api/imports endpoints so both follow the same rules.
+ */
+
+import { ImportBatch, Prisma, PrismaClient } from '@prisma/client';
+import {
+  isSameFieldValue,
+  parseSnapshot,
+  recordRevision,
+  SNAPSHOT_FIELDS,
+  toSnapshot,
+  UseCaseSnapshot,
+  useCaseTermsInclude,
+} from './revisions';
+import { ColumnMapping, MappedField, MappedRow } from './columnMapping';
+import { AppError } from './errors';
+import { FIELD_LENGTH_LIMITS, MAX_TAXONOMY_VALUES, URL_PATTERN } from './useCaseRules';
+import { buildProfile, DUPLICATE_THRESHOLD, findSimilar, SimilarityProfile } from './similarity';
+import {
+  LinkedTaxonomyType,
+  loadTaxonomyResolver,
+  loadUnknownTermFinder,
+  resolveSnapshotTerms,
+  resolveTaxonomyValues,
+  splitTaxonomyValues,
+  TaxonomyResolver,
+} from './taxonomy';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export const IMPORT_MODES = ['insert', 'upsert', 'sync'] as const;
+
+export type ImportMode = (typeof IMPORT_MODES)[number];
+
+export interface ImportStats {
+  totalRows: number;
+  inserted: number;
+  updated: number;
+  unchanged: number;
+  archived: number;
+  skipped: number;
+  duplicates: number;
+  errors: number;
+  // Number of use cases in which each field changed (upsert and sync)
+  fieldChanges: Partial<Record<keyof UseCaseSnapshot, number>>;
+  errorDetails: Array<{ row: number; reason: string }>;
+}
+
+/**
+ * A problem found in one row. Errors cause the row to be skipped, warnings
+ * (values the API would reject, likely duplicates) are imported anyway.
+ */
+export interface RowIssue {
+  row: number;
+  severity: 'error' | 'warning';
+  field: string | null;
+  useCase: string | null;
+  message: string;
+}
+
+export interface ImportRow {
+  rowNumber: number;
+  row: MappedRow;
+}
+
+export const ROW_ACTIONS = ['insert', 'update', 'unchanged', 'duplicate', 'skip'] as const;
+
+export type RowAction = (typeof ROW_ACTIONS)[number];
+
+// Rows archived by a sync or not written for an error are recorded as well
+const OUTCOME_ACTIONS = [...ROW_ACTIONS, 'archive', 'error'] as const;
+
+type OutcomeAction = (typeof OUTCOME_ACTIONS)[number];
+
+export interface PlannedRow {
+  rowNumber: number;
+  action: RowAction;
+  useCase: string | null;
+  // Matching use case for updates, unchanged rows and duplicates of the library
+  existingId: number | null;
+  // Its stored values when planned, so an update notices later edits
+  current: UseCaseSnapshot | null;
+  // Values to write for inserts and updates
+  fields: UseCaseSnapshot | null;
+  changedFields: Array<keyof UseCaseSnapshot>;
+  issues: RowIssue[];
+}
+
+/**
+ * What happened to one row, stored with its import batch. Use cases archived
+ * by a sync have no row. The values before and after the import let a
+ * rollback detect later edits.
+ */
+export interface ImportOutcome {
+  row: number | null;
+  action: OutcomeAction;
+  useCaseId: number | null;
+  useCase: string | null;
+  before: UseCaseSnapshot | null;
+  after: UseCaseSnapshot | null;
+  message: string | null;
+}
+
+export interface RollbackResult {
+  deleted: number;
+  reverted: number;
+  republished: number;
+  // Use cases edited or removed after the import are left alone
+  skipped: Array<{ useCaseId: number; useCase: string | null; reason: string }>;
+}
+
+// Large batches touch hundreds of use cases in one transaction
+const ROLLBACK_TIMEOUT_MS = 120_000;
+
+// Fields holding linked terms, with how a value is named in row issues
+const TERM_FIELDS: Array<{ type: LinkedTaxonomyType; field: 'industries' | 'departments'; label: string }> = [
+  { type: 'INDUSTRY', field: 'industries', label: 'industry' },
+  { type: 'DEPARTMENT', field: 'departments', label: 'department' },
+];
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Normalizes a string value from the import file
+ * Returns null if the value is empty or only whitespace
+ */
+export function normalizeValue(value: string | undefined | null): string | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+/**
+ * Validates URL format
+ */
+function isValidUrl(url: string): boolean {
+  return URL_PATTERN.test(url);
+}
+
+export function createImportStats(totalRows = 0): ImportStats {
+  return {
+    totalRows,
+    inserted: 0,
+    updated: 0,
+    unchanged: 0,
+    archived: 0,
+    skipped: 0,
+    duplicates: 0,
+    errors: 0,
+    fieldChanges: {},
+    errorDetails: [],
+  };
+}
+
+/**
+ * Maps a row to use case fields. Empty cells become null, taxonomy values
+ * and their aliases become the canonical name. Industry and department
+ * cells are split into their values ("Retail; Banking"). The files carry no
+ * tags, so new use cases start without any.
+ */
+function toUseCaseFields(
+  row: MappedRow,
+  useCase: string,
+  conceptDescription: string,
+  resolveTaxonomy: TaxonomyResolver
+): UseCaseSnapshot {
+  return {
+    useCase,
+    conceptDescription,
+    concreteImplementation: normalizeValue(row.concreteImplementation),
+    benefit: normalizeValue(row.benefit),
+    industries: resolveTaxonomyValues(resolveTaxonomy, 'INDUSTRY', splitTaxonomyValues(row.industries)),
+    departments: resolveTaxonomyValues(resolveTaxonomy, 'DEPARTMENT', splitTaxonomyValues(row.departments)),
+    valueChainStep: resolveTaxonomy('VALUE_CHAIN_STEP', row.valueChainStep),
+    url: normalizeValue(row.url),
+    tags: [],
+  };
+}
+
+/**
+ * Lists the fields whose value in the file differs from the stored use case
+ */
+function findChangedFields(current: UseCaseSnapshot, incoming: UseCaseSnapshot): Array<keyof UseCaseSnapshot> {
+  return (Object.keys(incoming) as Array<keyof UseCaseSnapshot>).filter(
+    (field) => !isSameFieldValue(current[field], incoming[field])
+  );
+}
+
+const sameSnapshot = (a: UseCaseSnapshot, b: UseCaseSnapshot): boolean =>
+  SNAPSHOT_FIELDS.every((field) => isSameFieldValue(a[field], b[field]));
+
+/**
+ * Checks a row for empty required fields, over-length fields and invalid URLs.
+ * Issues name the column by its header in the file.
+ */
+function validateRow(row: MappedRow, rowNumber: number, mapping: ColumnMapping): RowIssue[] {
+  const useCase = normalizeValue(row.useCase);
+  const issues: RowIssue[] = [];
+  const addIssue = (severity: RowIssue['severity'], field: MappedField, message: string) => {
+    issues.push({ row: rowNumber, severity, field: mapping[field].header, useCase, message });
+  };
+
+  for (const field of ['useCase', 'conceptDescription'] as const) {
+    if (!normalizeValue(row[field])) {
+      addIssue('error', field, `Empty "${mapping[field].header}" field`);
+    }
+  }
+
+  for (const field of Object.keys(FIELD_LENGTH_LIMITS) as Array<keyof typeof FIELD_LENGTH_LIMITS>) {
+    const { max } = FIELD_LENGTH_LIMITS[field];
+    const values = field === 'industries' || field === 'departments'
+      ? splitTaxonomyValues(row[field])
+      : [normalizeValue(row[field]) ?? ''];
+    values.forEach((value) => {
+      if (value.length > max) {
+        addIssue('warning', field, `"${mapping[field].header}" has ${value.length} characters, the limit is ${max}`);
+      }
+    });
+  }
+
+  for (const field of ['industries', 'departments'] as const) {
+    const count = splitTaxonomyValues(row[field]).length;
+    if (count > MAX_TAXONOMY_VALUES) {
+      addIssue('warning', field, `"${mapping[field].header}" has ${count} values, the limit is ${MAX_TAXONOMY_VALUES}`);
+    }
+  }
+
+  const url = normalizeValue(row.url);
+  if (url && !isValidUrl(url)) {
+    addIssue('warning', 'url', `Invalid URL format: ${url}`);
+  }
+
+  return issues;
+}
+
+const findByName = (client: PrismaClient, useCase: string) =>
+  client.useCase.findFirst({
+    where: {
+      useCase: {
+        equals: useCase,
+        mode: 'insensitive',
+      },
+    },
+    include: useCaseTermsInclude,
+  });
+
+// =============================================================================
+// PLANNING
+// =============================================================================
+
+/**
+ * Loads the use cases a new row is checked against for near-duplicates
+ */
+async function loadLibraryProfiles(
+  client: PrismaClient
+): Promise<{ profiles: SimilarityProfile[]; names: Map<number, string> }> {
+  const useCases = await client.useCase.findMany({
+    where: { status: { not: 'ARCHIVED' } },
+    select: { id: true, useCase: true, conceptDescription: true },
+  });
+  return {
+    profiles: useCases.map(buildProfile),
+    names: new Map(useCases.map(({ id, useCase }) => [id, useCase])),
+  };
+}
+
+/**
+ * Returns a function that classifies rows one by one. It remembers the names
+ * it has seen, so later rows with the same name become duplicates. New rows
+ * that closely resemble an existing use case get a warning. Taxonomy values
+ * are mapped to their canonical name, so an alias in the file is no change.
+ * Industries and departments without a term make the row an error, unless
+ * createTerms is set; then they are created on import and only warned about.
+ */
+export function createRowPlanner(
+  client: PrismaClient,
+  mapping: ColumnMapping,
+  mode: ImportMode,
+  createTerms = false
+): (importRow: ImportRow) => Promise<PlannedRow> {
+  // Lowercased names of the rows checked so far, with their row number
+  const seenNames = new Map<string, number>();
+  // Loaded with the first valid row
+  let taxonomy: Promise<TaxonomyResolver> | null = null;
+  let unknownTerms: ReturnType<typeof loadUnknownTermFinder> | null = null;
+  // Loaded with the first new row
+  let library: Promise<{ profiles: SimilarityProfile[]; names: Map<number, string> }> | null = null;
+
+  return async ({ rowNumber, row }) => {
+    const issues = validateRow(row, rowNumber, mapping);
+    const useCase = normalizeValue(row.useCase);
+    const conceptDescription = normalizeValue(row.conceptDescription);
+    const planned: PlannedRow = {
+      rowNumber,
+      action: 'skip',
+      useCase,
+      existingId: null,
+      current: null,
+      fields: null,
+      changedFields: [],
+      issues,
+    };
+
+    // Skip rows with empty required fields
+    if (issues.some(({ severity }) => severity === 'error') || !useCase || !conceptDescription) {
+      return planned;
+    }
+
+    const addDuplicate = (message: string): PlannedRow => {
+      issues.push({ row: rowNumber, severity: 'error', field: mapping.useCase.header, useCase, message });
+      return { ...planned, action: 'duplicate' };
+    };
+
+    taxonomy ??= loadTaxonomyResolver(client);
+    unknownTerms ??= loadUnknownTermFinder(client);
+    const fields = toUseCaseFields(row, useCase, conceptDescription, await taxonomy);
+    const findUnknownTerms = await unknownTerms;
+
+    // New industries and departments need the editor's consent
+    TERM_FIELDS.forEach(({ type, field, label }) => {
+      findUnknownTerms(type, fields[field]).forEach((value) => {
+        issues.push({
+          row: rowNumber,
+          severity: createTerms ? 'warning' : 'error',
+          field: mapping[field].header,
+          useCase,
+          message: createTerms ? `New ${label} "${value}" will be created` : `Unknown ${label} "${value}"`,
+        });
+      });
+    });
+    if (issues.some(({ severity }) => severity === 'error')) {
+      return planned;
+    }
+
+    // Check for an earlier row with the same name
+    const nameKey = useCase.toLowerCase();
+    const firstRowNumber = seenNames.get(nameKey);
+    if (firstRowNumber !== undefined) {
+      return addDuplicate(`Duplicate of row ${firstRowNumber}`);
+    }
+    seenNames.set(nameKey, rowNumber);
+
+    // Check for existing use case (idempotency)
+    const existing = await findByName(client, useCase);
+
+    if (!existing) {
+      library ??= loadLibraryProfiles(client);
+      const { profiles, names } = await library;
+      const [similar] = findSimilar(
+        buildProfile({ id: 0, useCase, conceptDescription }),
+        profiles,
+        DUPLICATE_THRESHOLD,
+        1
+      );
+      if (similar) {
+        issues.push({
+          row: rowNumber,
+          severity: 'warning',
+          field: mapping.useCase.header,
+          useCase,
+          message: `Similar to existing use case #${similar.id} "${names.get(similar.id)}" (${Math.round(similar.score * 100)}%)`,
+        });
+      }
+      return { ...planned, action: 'insert', fields };
+    }
+
+    if (mode === 'insert') {
+      return { ...addDuplicate(`Duplicate of existing use case #${existing.id}`), existingId: existing.id };
+    }
+
+    // Updates keep the tags of the use case
+    const current = toSnapshot(existing);
+    const updatedFields = { ...fields, tags: current.tags };
+    const changedFields = findChangedFields(current, updatedFields);
+    return {
+      ...planned,
+      action: changedFields.length > 0 ? 'update' : 'unchanged',
+      existingId: existing.id,
+      current,
+      fields: updatedFields,
+      changedFields,
+    };
+  };
+}
+
+/**
+ * Classifies every row of an import without writing anything
+ */
+export async function planImport(
+  client: PrismaClient,
+  rows: ImportRow[],
+  mapping: ColumnMapping,
+  mode: ImportMode,
+  createTerms = false
+): Promise<PlannedRow[]> {
+  const planRow = createRowPlanner(client, mapping, mode, createTerms);
+  const plan: PlannedRow[] = [];
+  for (const row of rows) {
+    plan.push(await planRow(row));
+  }
+  return plan;
+}
+
+// =============================================================================
+// WRITING
+// =============================================================================
+
+/**
+ * Describes a planned row that is not written (or before it is written)
+ */
+export function describePlannedRow(planned: PlannedRow): ImportOutcome {
+  return {
+    row: planned.rowNumber,
+    action: planned.action,
+    useCaseId: planned.existingId,
+    useCase: planned.useCase,
+    before: null,
+    after: null,
+    message: planned.issues.find(({ severity }) => severity === 'error')?.message ?? null,
+  };
+}
+
+/**
+ * Inserts or updates the use case of a planned row together with its revision.
+ * New use cases are linked to the import batch. Rows with any other action
+ * are left alone. Missing industry and department terms are only created
+ * with createTerms, as when planning. The library is checked again first: a
+ * row whose use case was edited or deleted since planning, or whose name was
+ * taken in the meantime, is not written and comes back as an error outcome.
+ */
+export async function applyPlannedRow(
+  client: PrismaClient,
+  planned: PlannedRow,
+  actor: string | null,
+  batchId: number | null = null,
+  createTerms = false
+): Promise<ImportOutcome> {
+  const { action, existingId, fields } = planned;
+  const outcome = describePlannedRow(planned);
+  if (!fields || (action !== 'insert' && action !== 'update')) {
+    return outcome;
+  }
+
+  const conflict = (message: string): ImportOutcome => ({ ...outcome, action: 'error', message });
+
+  return client.$transaction(async (tx) => {
+    if (action === 'update' && existingId !== null) {
+      const current = await tx.useCase.findUnique({ where: { id: existingId }, include: useCaseTermsInclude });
+      if (!current) {
+        return conflict(`Use case #${existingId} was deleted since the preview`);
+      }
+      if (!planned.current || !sameSnapshot(toSnapshot(current), planned.current)) {
+        return conflict(`Use case #${existingId} was changed since the preview`);
+      }
+
+      const { columns, industries, departments, tags } = await resolveSnapshotTerms(tx, fields, createTerms);
+      const updated = await tx.useCase.update({
+        where: { id: existingId },
+        data: {
+          ...columns,
+          industries: { set: industries },
+          departments: { set: departments },
+          tags: { set: tags },
+        },
+        include: useCaseTermsInclude,
+      });
+      await recordRevision(tx, updated, 'UPDATE', actor);
+      return { ...outcome, before: toSnapshot(current), after: toSnapshot(updated) };
+    }
+
+    // The library may have changed since the row was planned
+    const existing = await tx.useCase.findFirst({
+      where: { useCase: { equals: fields.useCase, mode: 'insensitive' } },
+      select: { id: true },
+    });
+    if (existing) {
+      return conflict(`Use case #${existing.id} with this name was created in the meantime`);
+    }
+
+    const { columns, industries, departments, tags } = await resolveSnapshotTerms(tx, fields, createTerms);
+    const created = await tx.useCase.create({
+      data: {
+        ...columns,
+        industries: { connect: industries },
+        departments: { connect: departments },
+        tags: { connect: tags },
+        importBatchId: batchId,
+      },
+      include: useCaseTermsInclude,
+    });
+    await recordRevision(tx, created, 'CREATE', actor);
+    return { ...outcome, useCaseId: created.id, after: toSnapshot(created) };
+  });
+}
+
+/**
+ * Adds the outcome of a planned row to the statistics
+ */
+export function countPlannedRow(stats: ImportStats, planned: PlannedRow): void {
+  switch (planned.action) {
+    case 'insert':
+      stats.inserted++;
+      break;
+    case 'update':
+      stats.updated++;
+      planned.changedFields.forEach((field) => {
+        stats.fieldChanges[field] = (stats.fieldChanges[field] ?? 0) + 1;
+      });
+      break;
+    case 'unchanged':
+      stats.unchanged++;
+      break;
+    case 'duplicate':
+      stats.duplicates++;
+      break;
+    case 'skip':
+      stats.skipped++;
+      stats.errorDetails.push({
+        row: planned.rowNumber,
+        reason: planned.issues.find(({ severity }) => severity === 'error')?.message ?? 'Empty required field',
+      });
+      break;
+  }
+}
+
+/**
+ * Adds a written row to the statistics. A row that could not be written as
+ * planned counts as an error and is returned as an issue.
+ */
+export function countAppliedRow(stats: ImportStats, planned: PlannedRow, outcome: ImportOutcome): RowIssue | null {
+  if (outcome.action !== 'error') {
+    countPlannedRow(stats, planned);
+    return null;
+  }
+  const message = outcome.message ?? 'Not written';
+  stats.errors++;
+  stats.errorDetails.push({ row: planned.rowNumber, reason: message });
+  return { row: planned.rowNumber, severity: 'error', field: null, useCase: planned.useCase, message };
+}
+
+/**
+ * Records a row that failed while being written
+ */
+export function countFailedRow(
+  stats: ImportStats,
+  rowNumber: number,
+  useCase: string | null,
+  error: unknown
+): RowIssue {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  stats.errors++;
+  stats.errorDetails.push({ row: rowNumber, reason: message });
+  return { row: rowNumber, severity: 'error', field: null, useCase, message };
+}
+
+/**
+ * Describes a row that failed while being written
+ */
+export function toFailedOutcome(issue: RowIssue): ImportOutcome {
+  return {
+    row: issue.row,
+    action: 'error',
+    useCaseId: null,
+    useCase: issue.useCase,
+    before: null,
+    after: null,
+    message: issue.message,
+  };
+}
+
+// =============================================================================
+// STORED PLANS
+// =============================================================================
+
+const asJsonObject = (value: Prisma.JsonValue | undefined): Prisma.JsonObject | null =>
+  value !== undefined && value !== null && typeof value === 'object' && !Array.isArray(value) ? value : null;
+
+const readString = (source: Prisma.JsonObject, key: string): string | null => {
+  const value = source[key];
+  return typeof value === 'string' ? value : null;
+};
+
+const readInteger = (source: Prisma.JsonObject, key: string): number | null => {
+  const value = source[key];
+  return typeof value === 'number' && Number.isInteger(value) ? value : null;
+};
+
+const readOneOf = <T extends string>(source: Prisma.JsonObject, key: string, allowed: readonly T[]): T | null =>
+  allowed.find((option) => option === source[key]) ?? null;
+
+const readSnapshot = (source: Prisma.JsonObject, key: string): UseCaseSnapshot | null => {
+  const value = source[key];
+  return value !== undefined && asJsonObject(value) ? parseSnapshot(value) : null;
+};
+
+const rowIssueToJson = (issue: RowIssue): Prisma.InputJsonObject => ({
+  row: issue.row,
+  severity: issue.severity,
+  field: issue.field,
+  useCase: issue.useCase,
+  message: issue.message,
+});
+
+function parseRowIssue(value: Prisma.JsonValue): RowIssue | null {
+  const source = asJsonObject(value);
+  const row = source && readInteger(source, 'row');
+  const severity = source && readOneOf(source, 'severity', ['error', 'warning'] as const);
+  const message = source && readString(source, 'message');
+  if (!source || row === null || !severity || message === null) {
+    return null;
+  }
+  return { row, severity, field: readString(source, 'field'), useCase: readString(source, 'useCase'), message };
+}
+
+/**
+ * Converts a planned row for storing it as JSON, e.g. with an import preview
+ */
+export function plannedRowToJson(planned: PlannedRow): Prisma.InputJsonObject {
+  return {
+    rowNumber: planned.rowNumber,
+    action: planned.action,
+    useCase: planned.useCase,
+    existingId: planned.existingId,
+    current: planned.current,
+    fields: planned.fields,
+    changedFields: planned.changedFields,
+    issues: planned.issues.map(rowIssueToJson),
+  };
+}
+
+/**
+ * Reads stored planned rows back. Entries without a row number or a known
+ * action are dropped, invalid issues and changed fields are left out.
+ */
+export function parsePlannedRows(rows: Prisma.JsonValue): PlannedRow[] {
+  if (!Array.isArray(rows)) {
+    return [];
+  }
+  return rows.flatMap((value) => {
+    const source = asJsonObject(value);
+    const rowNumber = source && readInteger(source, 'rowNumber');
+    const action = source && readOneOf(source, 'action', ROW_ACTIONS);
+    if (!source || rowNumber === null || !action) {
+      return [];
+    }
+    const changedFields = source['changedFields'];
+    const issues = source['issues'];
+    return [
+      {
+        rowNumber,
+        action,
+        useCase: readString(source, 'useCase'),
+        existingId: readInteger(source, 'existingId'),
+        current: readSnapshot(source, 'current'),
+        fields: readSnapshot(source, 'fields'),
+        changedFields: Array.isArray(changedFields)
+          ? SNAPSHOT_FIELDS.filter((field) => changedFields.includes(field))
+          : [],
+        issues: Array.isArray(issues) ? issues.flatMap((issue) => parseRowIssue(issue) ?? []) : [],
+      },
+    ];
+  });
+}
+
+// =============================================================================
+// IMPORT BATCHES
+// =============================================================================
+
+/**
+ * Records the start of an import, so new use cases can be linked to it
+ */
+export async function createImportBatch(
+  client: PrismaClient,
+  fileName: string,
+  mode: ImportMode,
+  actor: string | null
+): Promise<number> {
+  const batch = await client.importBatch.create({
+    data: { fileName, mode, createdBy: actor, stats: {}, rows: [] },
+    select: { id: true },
+  });
+  return batch.id;
+}
+
+/**
+ * Stores the statistics and per-row outcomes of a finished import
+ */
+export async function finishImportBatch(
+  client: PrismaClient,
+  batchId: number,
+  stats: ImportStats,
+  outcomes: ImportOutcome[]
+): Promise<void> {
+  const { errorDetails: _errorDetails, ...counts } = stats;
+  await client.importBatch.update({
+    where: { id: batchId },
+    data: {
+      stats: counts as Prisma.InputJsonObject,
+      rows: outcomes.map(outcomeToJson),
+    },
+  });
+}
+
+const outcomeToJson = (outcome: ImportOutcome): Prisma.InputJsonObject => ({
+  row: outcome.row,
+  action: outcome.action,
+  useCaseId: outcome.useCaseId,
+  useCase: outcome.useCase,
+  before: outcome.before,
+  after: outcome.after,
+  message: outcome.message,
+});
+
+/**
+ * Reads the stored outcomes of a batch back into typed values. Entries
+ * without a known action are dropped, so a malformed or legacy batch cannot
+ * break its rollback; other missing values become null.
+ */
+export function parseImportOutcomes(rows: Prisma.JsonValue): ImportOutcome[] {
+  if (!Array.isArray(rows)) {
+    return [];
+  }
+  return rows.flatMap((value): ImportOutcome[] => {
+    const source = asJsonObject(value);
+    const action = source && readOneOf(source, 'action', OUTCOME_ACTIONS);
+    if (!source || !action) {
+      return [];
+    }
+    return [
+      {
+        row: readInteger(source, 'row'),
+        action,
+        useCaseId: readInteger(source, 'useCaseId'),
+        useCase: readString(source, 'useCase'),
+        before: readSnapshot(source, 'before'),
+        after: readSnapshot(source, 'after'),
+        message: readString(source, 'message'),
+      },
+    ];
+  });
+}
+
+/**
+ * Undoes an import batch in one transaction: deletes the use cases it
+ * created, restores the previous values of those it updated and publishes
+ * again those a sync archived. Use cases that changed since the import are
+ * skipped, so later edits are never lost. Every change gets a revision.
+ * Marking the batch as rolled back comes first and only succeeds once, so a
+ * batch already rolled back (or being rolled back by a concurrent request)
+ * fails with a 409 AppError.
+ */
+export async function rollbackImportBatch(
+  client: PrismaClient,
+  batch: ImportBatch,
+  actor: string | null
+): Promise<RollbackResult> {
+  const comment = `Rollback of import #${batch.id}`;
+  const result: RollbackResult = { deleted: 0, reverted: 0, republished: 0, skipped: [] };
+
+  await client.$transaction(
+    async (tx) => {
+      // Guards against two editors rolling back the same batch at once
+      const { count } = await tx.importBatch.updateMany({
+        where: { id: batch.id, rolledBackAt: null },
+        data: { rolledBackAt: new Date(), rolledBackBy: actor },
+      });
+      if (count === 0) {
+        throw new AppError(`Import #${batch.id} has already been rolled back`, 409);
+      }
+
+      // Newest first, in case a use case appears more than once
+      for (const outcome of parseImportOutcomes(batch.rows).reverse()) {
+        const { action, useCaseId, useCase, before, after } = outcome;
+        if (useCaseId === null || (action !== 'insert' && action !== 'update' && action !== 'archive')) {
+          continue;
+        }
+
+        const skip = (reason: string) => result.skipped.push({ useCaseId, useCase, reason });
+        const current = await tx.useCase.findUnique({ where: { id: useCaseId }, include: useCaseTermsInclude });
+        if (!current) {
+          skip('Deleted after the import');
+          continue;
+        }
+
+        if (action === 'archive') {
+          if (current.status !== 'ARCHIVED') {
+            skip('Status changed after the import');
+            continue;
+          }
+          const republished = await tx.useCase.update({
+            where: { id: useCaseId },
+            data: { status: 'PUBLISHED', reviewComment: null },
+            include: useCaseTermsInclude,
+          });
+          await recordRevision(tx, republished, 'APPROVE', actor, comment);
+          result.republished++;
+          continue;
+        }
+
+        if (!after || !sameSnapshot(toSnapshot(current), after)) {
+          skip('Edited after the import');
+          continue;
+        }
+
+        if (action === 'insert') {
+          await tx.useCase.delete({ where: { id: useCaseId } });
+          await recordRevision(tx, current, 'DELETE', actor, comment);
+          result.deleted++;
+        } else if (before) {
+          // The values were in the library before the import, so their terms may be recreated
+          const { columns, industries, departments, tags } = await resolveSnapshotTerms(tx, before, true);
+          const reverted = await tx.useCase.update({
+            where: { id: useCaseId },
+            data: {
+              ...columns,
+              industries: { set: industries },
+              departments: { set: departments },
+              tags: { set: tags },
+            },
+            include: useCaseTermsInclude,
+          });
+          await recordRevision(tx, reverted, 'UPDATE', actor, comment);
+          result.reverted++;
+        }
+      }
+    },
+    { timeout: ROLLBACK_TIMEOUT_MS }
+  );
+
+  return result;
+}
@@ -0,0 +1,155 @@
+/**
+ * Use Case Revision Helpers
+ *
+ * Every write to a use case stores a full snapshot of its editable fields,
+ * including the names of its industries, departments and tags, in the
+ * use_case_revisions table. Shared by the API server and the
+ * import script so that all creates, updates and deletes are recorded.
+ */
+
+import { Prisma, RevisionAction, UseCase } from '@prisma/client';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type UseCaseSnapshot = Pick<
+  UseCase,
+  | 'useCase'
+  | 'conceptDescription'
+  | 'concreteImplementation'
+  | 'benefit'
+  | 'valueChainStep'
+  | 'url'
+> & {
+  // Names of the linked taxonomy terms
+  industries: string[];
+  departments: string[];
+  // Names of the tags
+  tags: string[];
+};
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+// Versioned fields in the order they are listed
+export const SNAPSHOT_FIELDS: Array<keyof UseCaseSnapshot> = [
+  'useCase',
+  'conceptDescription',
+  'concreteImplementation',
+  'benefit',
+  'industries',
+  'departments',
+  'valueChainStep',
+  'url',
+  'tags',
+];
+
+const termsInOrder = {
+  select: { id: true, name: true },
+  orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+} satisfies Prisma.UseCase$industriesArgs;
+
+// Taxonomy terms linked to a use case in the taxonomy order, tags alphabetically
+export const useCaseTermsInclude = {
+  industries: termsInOrder,
+  departments: termsInOrder,
+  tags: { select: { id: true, name: true }, orderBy: { name: 'asc' } },
+} satisfies Prisma.UseCaseInclude;
+
+export type UseCaseWithTerms = Prisma.UseCaseGetPayload<{ include: typeof useCaseTermsInclude }>;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Extracts the versioned fields of a use case
+ */
+export function toSnapshot(useCase: UseCaseWithTerms): UseCaseSnapshot {
+  return {
+    useCase: useCase.useCase,
+    conceptDescription: useCase.conceptDescription,
+    concreteImplementation: useCase.concreteImplementation,
+    benefit: useCase.benefit,
+    industries: useCase.industries.map(({ name }) => name),
+    departments: useCase.departments.map(({ name }) => name),
+    valueChainStep: useCase.valueChainStep,
+    url: useCase.url,
+    tags: useCase.tags.map(({ name }) => name),
+  };
+}
+
+/**
+ * Reads a stored snapshot back into typed use case fields.
+ * Missing or non-string values become null, or an empty list. Snapshots
+ * from before use cases had several industries and departments hold a
+ * single "industry" and "department", and older ones no tags.
+ */
+export function parseSnapshot(snapshot: Prisma.JsonValue): UseCaseSnapshot {
+  const source = (
+    snapshot !== null && typeof snapshot === 'object' && !Array.isArray(snapshot) ? snapshot : {}
+  ) as Prisma.JsonObject;
+  const read = (key: string): string | null => {
+    const value = source[key];
+    return typeof value === 'string' ? value : null;
+  };
+  const readList = (key: string, legacyKey?: string): string[] => {
+    const value = source[key];
+    if (Array.isArray(value)) {
+      return value.filter((item): item is string => typeof item === 'string');
+    }
+    const legacy = legacyKey ? read(legacyKey) : null;
+    return legacy ? [legacy] : [];
+  };
+
+  return {
+    useCase: read('useCase') ?? '',
+    conceptDescription: read('conceptDescription') ?? '',
+    concreteImplementation: read('concreteImplementation'),
+    benefit: read('benefit'),
+    industries: readList('industries', 'industry'),
+    departments: readList('departments', 'department'),
+    valueChainStep: read('valueChainStep'),
+    url: read('url'),
+    tags: readList('tags'),
+  };
+}
+
+/**
+ * Compares one field of two snapshots. Industries, departments and tags are
+ * compared as sets, ignoring their order.
+ */
+export function isSameFieldValue<K extends keyof UseCaseSnapshot>(
+  a: UseCaseSnapshot[K],
+  b: UseCaseSnapshot[K]
+): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value) => b.includes(value));
+  }
+  return a === b;
+}
+
+/**
+ * Stores a snapshot of the given use case.
+ * Pass the transaction client so the revision commits together with the change.
+ * Workflow actions (approve, reject, ...) carry the reviewer's comment.
+ */
+export async function recordRevision(
+  client: Prisma.TransactionClient,
+  useCase: UseCaseWithTerms,
+  action: RevisionAction,
+  changedBy: string | null,
+  comment: string | null = null
+): Promise<void> {
+  await client.useCaseRevision.create({
+    data: {
+      useCaseId: useCase.id,
+      action,
+      snapshot: toSnapshot(useCase),
+      changedBy,
+      comment,
+    },
+  });
+}
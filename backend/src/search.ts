@@ -0,0 +1,157 @@
+/**
+ * Full-Text Search Helpers
+ *
+ * Queries the weighted search_vector column of use_cases (see
+ * prisma/sql/search_vector.sql) for relevance ranking and builds
+ * highlighted snippets for the matched terms.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchMatch {
+  rank: number;
+  title: HighlightSegment[];
+  snippet: HighlightSegment[];
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+// Must match the text search configuration of the generated column
+const SEARCH_CONFIG = 'english';
+
+// Control characters never appear in use case text, so they can safely
+// delimit matches in ts_headline output before it is split into segments
+const MATCH_START = '\u0001';
+const MATCH_END = '\u0002';
+
+const HEADLINE_OPTIONS = [
+  `StartSel="${MATCH_START}"`,
+  `StopSel="${MATCH_END}"`,
+  'MaxWords=35',
+  'MinWords=15',
+  'MaxFragments=2',
+  'FragmentDelimiter=" … "',
+].join(', ');
+
+const TITLE_HEADLINE_OPTIONS = `StartSel="${MATCH_START}", StopSel="${MATCH_END}", HighlightAll=true`;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Splits ts_headline output into plain and matched segments
+ */
+function toSegments(headline: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let rest = headline;
+
+  while (rest.length > 0) {
+    const start = rest.indexOf(MATCH_START);
+    if (start === -1) {
+      segments.push({ text: rest, match: false });
+      break;
+    }
+
+    const end = rest.indexOf(MATCH_END, start);
+    if (start > 0) {
+      segments.push({ text: rest.substring(0, start), match: false });
+    }
+    segments.push({
+      text: rest.substring(start + MATCH_START.length, end === -1 ? undefined : end),
+      match: true,
+    });
+    rest = end === -1 ? '' : rest.substring(end + MATCH_END.length);
+  }
+
+  return segments;
+}
+
+/**
+ * Returns the IDs of all use cases matching the search query with their
+ * relevance rank. Supports web search syntax ("quoted phrases", OR, -exclude).
+ * Use cases linked to an industry or department whose name matches the query
+ * are included too, ranked with the term name added at weight D. Terms are
+ * matched first so the use case lookup stays on the search_vector index and
+ * the link tables' indexes.
+ */
+export async function rankUseCaseMatches(
+  client: PrismaClient,
+  search: string
+): Promise<Map<number, number>> {
+  const rows = await client.$queryRaw<Array<{ id: number; rank: number }>>(Prisma.sql`
+    WITH query AS (
+      SELECT websearch_to_tsquery(${SEARCH_CONFIG}::regconfig, ${search}) AS q
+    ),
+    matches AS (
+      SELECT u.id, ts_rank(u.search_vector, query.q) AS rank
+      FROM use_cases u, query
+      WHERE u.search_vector @@ query.q
+      UNION ALL
+      SELECT u.id, ts_rank(u.search_vector || setweight(to_tsvector(${SEARCH_CONFIG}::regconfig, t.name), 'D'), query.q)
+      FROM query, taxonomy_terms t
+      JOIN (
+        SELECT "A" AS term_id, "B" AS use_case_id FROM "_UseCaseIndustries"
+        UNION ALL
+        SELECT "A", "B" FROM "_UseCaseDepartments"
+      ) links ON links.term_id = t.id
+      JOIN use_cases u ON u.id = links.use_case_id
+      WHERE to_tsvector(${SEARCH_CONFIG}::regconfig, t.name) @@ query.q
+    )
+    SELECT id, max(rank)::float8 AS rank
+    FROM matches
+    GROUP BY id
+  `);
+
+  return new Map(rows.map((row) => [row.id, row.rank]));
+}
+
+/**
+ * Builds highlighted title and description snippets for the given use cases
+ */
+export async function buildSearchMatches(
+  client: PrismaClient,
+  search: string,
+  ranks: Map<number, number>,
+  ids: number[]
+): Promise<Map<number, SearchMatch>> {
+  if (ids.length === 0) {
+    return new Map();
+  }
+
+  const rows = await client.$queryRaw<Array<{ id: number; title: string; snippet: string }>>(Prisma.sql`
+    SELECT
+      id,
+      ts_headline(${SEARCH_CONFIG}::regconfig, use_case, query, ${TITLE_HEADLINE_OPTIONS}) AS title,
+      ts_headline(
+        ${SEARCH_CONFIG}::regconfig,
+        concat_ws(E'\n', concept_description, concrete_implementation, benefit),
+        query,
+        ${HEADLINE_OPTIONS}
+      ) AS snippet
+    FROM use_cases, websearch_to_tsquery(${SEARCH_CONFIG}::regconfig, ${search}) AS query
+    WHERE id IN (${Prisma.join(ids)})
+  `);
+
+  return new Map(
+    rows.map((row) => [
+      row.id,
+      {
+        rank: ranks.get(row.id) ?? 0,
+        title: toSegments(row.title),
+        snippet: toSegments(row.snippet),
+      },
+    ])
+  );
+}
@@ -8,9 +8,77 @@ import express, {
 import cors from 'cors';
 import helmet from 'helmet';
 import morgan from 'morgan';
-import { PrismaClient, Prisma } from '@prisma/client';
-import { body, param, query, validationResult, ValidationError } from 'express-validator';
+import {
+  PrismaClient,
+  Prisma,
+  UserRole,
+  UseCaseStatus,
+  RevisionAction,
+  TaxonomyTerm,
+  TaxonomyType,
+} from '@prisma/client';
+import { body, param, query, validationResult } from 'express-validator';
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import multer from 'multer';
 import dotenv from 'dotenv';
+import * as path from 'path';
+import { AppError, ForbiddenError, NotFoundError, UnauthorizedError, ValidationAppError } from './errors';
+import type { AuthUser } from './types/express';
+import { parseSnapshot, recordRevision, useCaseTermsInclude, UseCaseWithTerms } from './revisions';
+import { buildSearchMatches, rankUseCaseMatches, SearchMatch } from './search';
+import { FIELD_LENGTH_LIMITS, MAX_TAXONOMY_VALUES, URL_PATTERN } from './useCaseRules';
+import {
+  buildProfile,
+  DUPLICATE_THRESHOLD,
+  findDuplicateClusters,
+  findRelated,
+  findSimilar,
+  RelatedInput,
+  SIMILAR_NAME_THRESHOLD,
+  tokenize,
+} from './similarity';
+import {
+  applyTaxonomyTerm,
+  cleanAliases,
+  countLinkedUseCases,
+  indexTaxonomyTerms,
+  isLinkedTaxonomy,
+  listTaxonomyValues,
+  loadTaxonomyResolver,
+  mergeTaxonomyValues,
+  normalizeTaxonomyKey,
+  resolveSnapshotTerms,
+  resolveTagIds,
+  resolveTaxonomyTermIds,
+  TAXONOMY_FIELDS,
+  TAXONOMY_TYPES,
+  TaxonomyResolver,
+  TermWithUseCaseCount,
+  UnknownTaxonomyValueError,
+} from './taxonomy';
+import { EXPORT_CONTENT_TYPES, EXPORT_FORMATS, ExportFormat, writeExport } from './exporter';
+import { applyColumnMapping, ColumnMapping, DEFAULT_COLUMN_MAPPING, parseColumnMapping } from './columnMapping';
+import { detectImportFormat, IMPORT_FORMATS, ImportFormat, readSourceRows, SourceRow } from './importSources';
+import {
+  applyPlannedRow,
+  countAppliedRow,
+  countFailedRow,
+  countPlannedRow,
+  createImportBatch,
+  createImportStats,
+  finishImportBatch,
+  ImportMode,
+  ImportOutcome,
+  ImportStats,
+  parseImportOutcomes,
+  parsePlannedRows,
+  plannedRowToJson,
+  planImport,
+  rollbackImportBatch,
+  RowIssue,
+  toFailedOutcome,
+} from './importer';
 
 // Load environment variables
 dotenv.config();
@@ -23,73 +91,243 @@ const prisma = new PrismaClient({
 // Initialize Express Application
 const app: Application = express();
 const PORT = parseInt(process.env['PORT'] ?? '3001', 10);
-const API_KEY = process.env['API_KEY'] ?? '';
+const JWT_SECRET = process.env['JWT_SECRET'] ?? '';
+const JWT_EXPIRES_IN = process.env['JWT_EXPIRES_IN'] ?? '8h';
+const BCRYPT_ROUNDS = 12;
 
 // =============================================================================
-// CUSTOM ERROR CLASSES
+// INTERFACES
 // =============================================================================
 
-class AppError extends Error {
-  public readonly statusCode: number;
-  public readonly isOperational: boolean;
-
-  constructor(message: string, statusCode: number, isOperational = true) {
-    super(message);
-    this.statusCode = statusCode;
-    this.isOperational = isOperational;
-    Object.setPrototypeOf(this, AppError.prototype);
-    Error.captureStackTrace(this, this.constructor);
-  }
-}
-
-class ValidationAppError extends AppError {
-  public readonly errors: ValidationError[];
-
-  constructor(errors: ValidationError[]) {
-    super('Validation failed', 400, true);
-    this.errors = errors;
-    Object.setPrototypeOf(this, ValidationAppError.prototype);
-  }
+interface LoginRequest {
+  username: string;
+  password: string;
 }
 
-class NotFoundError extends AppError {
-  constructor(resource: string, id: string | number) {
-    super(`${resource} with id ${id} not found`, 404, true);
-    Object.setPrototypeOf(this, NotFoundError.prototype);
-  }
+interface UserCreateRequest {
+  username: string;
+  password: string;
+  role?: UserRole;
 }
 
-class UnauthorizedError extends AppError {
-  constructor(message = 'Unauthorized: Invalid or missing API key') {
-    super(message, 401, true);
-    Object.setPrototypeOf(this, UnauthorizedError.prototype);
-  }
+interface UserUpdateRequest {
+  password?: string;
+  role?: UserRole;
 }
 
-// =============================================================================
-// INTERFACES
-// =============================================================================
-
 interface UseCaseCreateRequest {
   useCase: string;
   conceptDescription: string;
   concreteImplementation?: string;
   benefit?: string;
-  industry?: string;
-  department?: string;
+  industries?: string[];
+  departments?: string[];
   valueChainStep?: string;
   url?: string;
+  tags?: string[];
 }
 
-interface PaginationQuery {
-  page?: string;
+type UseCaseUpdateRequest = Partial<UseCaseCreateRequest>;
+
+interface DuplicatesQuery {
+  threshold?: string;
+}
+
+interface RelatedQuery {
   limit?: string;
-  industry?: string;
-  valueChainStep?: string;
-  department?: string;
+}
+
+interface SimilarNamesQuery {
+  useCase?: string;
+}
+
+interface MergeRequest {
+  sourceId: number;
+}
+
+interface TagCloudQuery {
+  limit?: string;
+}
+
+interface TaxonomyQuery {
+  type?: TaxonomyType;
+}
+
+interface TaxonomyTermRequest {
+  type: TaxonomyType;
+  name: string;
+  aliases?: string[];
+  sortOrder?: number;
+}
+
+type TaxonomyTermUpdateRequest = Partial<Omit<TaxonomyTermRequest, 'type'>>;
+
+interface TaxonomyMergeRequest {
+  type: TaxonomyType;
+  values: string[];
+  into: string;
+}
+
+interface TaxonomyOrderRequest {
+  type: TaxonomyType;
+  ids: number[];
+}
+
+// Taxonomy filters accept repeated (?industry=a&industry=b) or comma-separated values
+type ListParam = string | string[];
+
+interface FilterQuery {
+  industry?: ListParam;
+  valueChainStep?: ListParam;
+  department?: ListParam;
+  excludeIndustry?: ListParam;
+  excludeValueChainStep?: ListParam;
+  excludeDepartment?: ListParam;
+  tags?: ListParam;
   search?: string;
+  status?: UseCaseStatus | 'all';
+  // "true" lists only the signed-in user's own submissions
+  mine?: string;
+}
+
+type SortOption = 'newest' | 'oldest' | 'title' | 'updated' | 'relevance' | 'views';
+
+interface PaginationQuery extends FilterQuery {
+  page?: string;
+  limit?: string;
+  sort?: SortOption;
+}
+
+interface ExportQuery extends FilterQuery {
+  format?: ExportFormat;
+  sort?: SortOption;
+}
+
+interface FacetSelection {
+  include: string[];
+  exclude: string[];
+}
+
+interface UseCaseFilters {
+  industry: FacetSelection;
+  valueChainStep: FacetSelection;
+  department: FacetSelection;
+  // Use cases with any of these tags
+  tags: string[];
+  search: string | null;
+  status: UseCaseStatus | 'all';
+  // Username of the author, for listing one's own submissions
+  createdBy: string | null;
+}
+
+type FacetField = 'industry' | 'valueChainStep' | 'department';
+
+const FACET_FIELDS: FacetField[] = ['industry', 'valueChainStep', 'department'];
+
+const EXCLUDE_PARAMS: Record<FacetField, keyof FilterQuery> = {
+  industry: 'excludeIndustry',
+  valueChainStep: 'excludeValueChainStep',
+  department: 'excludeDepartment',
+};
+
+const FACET_TAXONOMY_TYPES: Record<FacetField, TaxonomyType> = {
+  industry: 'INDUSTRY',
+  valueChainStep: 'VALUE_CHAIN_STEP',
+  department: 'DEPARTMENT',
+};
+
+const MAX_FILTER_VALUES = 50;
+
+// Tags per use case and characters per tag
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 50;
+
+// Tags returned by the tag cloud unless ?limit= is given
+const DEFAULT_TAG_CLOUD_LIMIT = 50;
+
+// Relevance needs a search query and is ranked separately; without one it falls back to newest
+const SORT_ORDERS: Record<Exclude<SortOption, 'relevance'>, Prisma.UseCaseOrderByWithRelationInput[]> = {
+  newest: [{ createdAt: 'desc' }, { id: 'desc' }],
+  oldest: [{ createdAt: 'asc' }, { id: 'asc' }],
+  title: [{ useCase: 'asc' }, { id: 'asc' }],
+  updated: [{ updatedAt: 'desc' }, { id: 'desc' }],
+  views: [{ viewCount: 'desc' }, { createdAt: 'desc' }, { id: 'desc' }],
+};
+
+const SORT_OPTIONS: SortOption[] = [...(Object.keys(SORT_ORDERS) as SortOption[]), 'relevance'];
+
+// Related use cases shown on the detail page unless ?limit= is given
+const DEFAULT_RELATED_LIMIT = 5;
+
+// Suggestions returned while a name is being typed
+const SIMILAR_NAMES_LIMIT = 5;
+
+// Optional fields a merge copies from the duplicate when the kept use case has none.
+// Industries, departments and tags of the duplicate are added to the kept use case.
+const MERGE_FILL_FIELDS = [
+  'concreteImplementation',
+  'benefit',
+  'valueChainStep',
+  'url',
+] as const;
+
+// Submitted values become term names, so both share one limit
+const TAXONOMY_NAME_MAX_LENGTH = FIELD_LENGTH_LIMITS.industries.max;
+
+// A merge rewrites every affected use case with a revision in one transaction
+const TAXONOMY_MERGE_TIMEOUT_MS = 120_000;
+
+// Number of taxonomy merges returned by GET /api/taxonomy/merges
+const TAXONOMY_MERGE_HISTORY_LIMIT = 100;
+
+// Rows loaded per query while streaming an export
+const EXPORT_BATCH_SIZE = 500;
+
+// Uploaded import files are held in memory
+const MAX_IMPORT_FILE_SIZE = 10 * 1024 * 1024;
+
+// How long an import preview can be committed
+const IMPORT_PREVIEW_TTL_MS = 30 * 60 * 1000;
+
+// Number of recorded imports returned by GET /api/imports
+const IMPORT_HISTORY_LIMIT = 100;
+
+// Sync is left to the import script, a wrong file would archive the library
+const WEB_IMPORT_MODES: ImportMode[] = ['insert', 'upsert'];
+
+// Multipart text fields next to the uploaded file
+interface ImportUploadRequest {
+  mode?: ImportMode;
+  sheet?: string;
+  delimiter?: string;
+  encoding?: string;
+  // JSON in the mapping file format: { "columns": { "useCase": "Title", ... } }
+  mapping?: string;
+  // Create terms for unknown industries and departments instead of skipping the rows
+  createTerms?: boolean;
 }
 
+interface FacetOption {
+  value: string;
+  count: number;
+}
+
+interface WorkflowRequest {
+  comment?: string;
+}
+
+interface WorkflowTransition {
+  from: UseCaseStatus[];
+  to: UseCaseStatus;
+  role: UserRole;
+  revisionAction: RevisionAction;
+  commentRequired: boolean;
+}
+
+type UseCaseWithRelations = Prisma.UseCaseGetPayload<{ include: typeof useCaseRelationsInclude }>;
+
+type UseCaseListItem = UseCaseWithRelations & { searchMatch: SearchMatch | null };
+
 interface PaginatedResponse<T> {
   data: T[];
   pagination: {
@@ -100,12 +338,8 @@ interface PaginatedResponse<T> {
     hasNext: boolean;
     hasPrev: boolean;
   };
-  filters: {
-    industry: string | null;
-    valueChainStep: string | null;
-    department: string | null;
-    search: string | null;
-  };
+  filters: UseCaseFilters;
+  sort: SortOption;
 }
 
 // =============================================================================
@@ -128,8 +362,8 @@ app.use(helmet({
 // CORS configuration
 app.use(cors({
   origin: process.env['FRONTEND_URL'] ?? 'http://localhost:5173',
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'x-api-key', 'Authorization'],
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization'],
   credentials: true,
 }));
 
@@ -137,341 +371,2424 @@ app.use(cors({
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
+// File uploads (import wizard), parsed per route
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_IMPORT_FILE_SIZE, files: 1 },
+}).single('file');
+
 // Request logging
 app.use(morgan(process.env['NODE_ENV'] === 'production' ? 'combined' : 'dev'));
 
-// API Key Authentication Middleware for POST requests
-const apiKeyAuthMiddleware: RequestHandler = (
+// Authentication Middleware
+// Resolves the user from a "Bearer <JWT>" Authorization header. Requests without
+// the header continue anonymously; routes opt into protection with requireRole.
+const authenticate: RequestHandler = async (
   req: Request,
   _res: Response,
   next: NextFunction
-): void => {
-  if (req.method === 'POST') {
-    const providedApiKey = req.headers['x-api-key'];
-    
-    if (!API_KEY) {
-      console.warn('WARNING: API_KEY is not configured. POST requests are unprotected.');
-      next();
+): Promise<void> => {
+  const authorization = req.headers.authorization;
+
+  if (!authorization) {
+    next();
+    return;
+  }
+
+  const [scheme, token] = authorization.split(' ');
+  if (scheme !== 'Bearer' || !token) {
+    next(new UnauthorizedError());
+    return;
+  }
+
+  try {
+    const payload = jwt.verify(token, JWT_SECRET);
+    const userId = typeof payload === 'string' ? NaN : Number(payload.sub);
+
+    // Load the user on every request so role changes and deletions apply immediately
+    const user = Number.isInteger(userId)
+      ? await prisma.user.findUnique({ where: { id: userId } })
+      : null;
+
+    if (!user) {
+      next(new UnauthorizedError('Unauthorized: Invalid or expired token'));
       return;
     }
 
-    if (!providedApiKey || providedApiKey !== API_KEY) {
-      next(new UnauthorizedError());
-      return;
+    req.user = { id: user.id, username: user.username, role: user.role };
+    next();
+  } catch (error) {
+    next(
+      error instanceof jwt.JsonWebTokenError
+        ? new UnauthorizedError('Unauthorized: Invalid or expired token')
+        : error
+    );
+  }
+};
+
+app.use('/api', authenticate);
+
+// Role-based authorization, roles are ranked VIEWER < CONTRIBUTOR < EDITOR < ADMIN
+const ROLE_RANK: Record<UserRole, number> = {
+  VIEWER: 0,
+  CONTRIBUTOR: 1,
+  EDITOR: 2,
+  ADMIN: 3,
+};
+
+const hasRole = (user: AuthUser | undefined, minimumRole: UserRole): boolean =>
+  user !== undefined && ROLE_RANK[user.role] >= ROLE_RANK[minimumRole];
+
+const requireRole = (minimumRole: UserRole): RequestHandler => (
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): void => {
+  if (!req.user) {
+    next(new UnauthorizedError());
+    return;
+  }
+
+  if (!hasRole(req.user, minimumRole)) {
+    next(new ForbiddenError(`Forbidden: This action requires the ${minimumRole} role`));
+    return;
+  }
+
+  next();
+};
+
+// =============================================================================
+// VALIDATION RULES
+// =============================================================================
+
+/**
+ * Validates a list of industries or departments, each value with the
+ * length limit of the other taxonomy fields
+ */
+const taxonomyListRules = (field: 'industries' | 'departments', label: string) => [
+  body(field)
+    .optional()
+    .isArray({ max: MAX_TAXONOMY_VALUES })
+    .withMessage(`${label} must be a list of at most ${MAX_TAXONOMY_VALUES} values`),
+  body(`${field}.*`)
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage(`${label} must not be empty`)
+    .isLength({ max: FIELD_LENGTH_LIMITS[field].max })
+    .withMessage(`${label} must not exceed ${FIELD_LENGTH_LIMITS[field].max} characters`),
+];
+
+/**
+ * Builds the use case body validation chain.
+ * For partial updates (PATCH) the required fields become optional,
+ * but are still validated with the same rules when present.
+ */
+const buildUseCaseValidation = (partial: boolean) => [
+  (partial ? body('useCase').optional() : body('useCase'))
+    .trim()
+    .notEmpty()
+    .withMessage('Use case name is required')
+    .isLength(FIELD_LENGTH_LIMITS.useCase)
+    .withMessage(
+      `Use case must be between ${FIELD_LENGTH_LIMITS.useCase.min} and ${FIELD_LENGTH_LIMITS.useCase.max} characters`
+    ),
+  (partial ? body('conceptDescription').optional() : body('conceptDescription'))
+    .trim()
+    .notEmpty()
+    .withMessage('Concept description is required')
+    .isLength(FIELD_LENGTH_LIMITS.conceptDescription)
+    .withMessage(
+      `Concept description must be between ${FIELD_LENGTH_LIMITS.conceptDescription.min} and ${FIELD_LENGTH_LIMITS.conceptDescription.max} characters`
+    ),
+  body('concreteImplementation')
+    .optional()
+    .trim()
+    .isLength({ max: FIELD_LENGTH_LIMITS.concreteImplementation.max })
+    .withMessage(`Concrete implementation must not exceed ${FIELD_LENGTH_LIMITS.concreteImplementation.max} characters`),
+  body('benefit')
+    .optional()
+    .trim()
+    .isLength({ max: FIELD_LENGTH_LIMITS.benefit.max })
+    .withMessage(`Benefit must not exceed ${FIELD_LENGTH_LIMITS.benefit.max} characters`),
+  ...taxonomyListRules('industries', 'Industries'),
+  ...taxonomyListRules('departments', 'Departments'),
+  body('valueChainStep')
+    .optional()
+    .trim()
+    .isLength({ max: FIELD_LENGTH_LIMITS.valueChainStep.max })
+    .withMessage(`Value chain step must not exceed ${FIELD_LENGTH_LIMITS.valueChainStep.max} characters`),
+  body('tags')
+    .optional()
+    .isArray({ max: MAX_TAGS })
+    .withMessage(`Tags must be a list of at most ${MAX_TAGS} values`),
+  body('tags.*')
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('Tags must not be empty')
+    .isLength({ max: MAX_TAG_LENGTH })
+    .withMessage(`Tags must not exceed ${MAX_TAG_LENGTH} characters`),
+  body('url')
+    .optional()
+    .trim()
+    .custom((value: string) => {
+      if (value && value.length > 0 && !URL_PATTERN.test(value)) {
+        throw new Error('Invalid URL format');
+      }
+      return true;
+    }),
+];
+
+const createUseCaseValidation = buildUseCaseValidation(false);
+const updateUseCaseValidation = buildUseCaseValidation(true);
+
+const filterValidation = [
+  ...[...FACET_FIELDS.flatMap((field) => [field, EXCLUDE_PARAMS[field]]), 'tags'].map((param) =>
+    query(param)
+      .optional()
+      .custom((value) => {
+        const values = parseListParam(value);
+        if (values.length > MAX_FILTER_VALUES) {
+          throw new Error(`At most ${MAX_FILTER_VALUES} values are allowed`);
+        }
+        if (values.some((item) => item.length > 200)) {
+          throw new Error('Filter values must not exceed 200 characters');
+        }
+        return true;
+      })
+  ),
+  query('search')
+    .optional()
+    .trim()
+    .isLength({ max: 500 }),
+  query('status')
+    .optional()
+    .isIn([...Object.values(UseCaseStatus), 'all'])
+    .withMessage(`Status must be one of: ${Object.values(UseCaseStatus).join(', ')}, all`),
+  query('mine')
+    .optional()
+    .isIn(['true', 'false'])
+    .withMessage('mine must be true or false'),
+];
+
+const sortValidation = query('sort')
+  .optional()
+  .isIn(SORT_OPTIONS)
+  .withMessage(`Sort must be one of: ${SORT_OPTIONS.join(', ')}`);
+
+const paginationValidation = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+  sortValidation,
+  ...filterValidation,
+];
+
+const exportValidation = [
+  query('format')
+    .optional()
+    .isIn(EXPORT_FORMATS)
+    .withMessage(`Format must be one of: ${EXPORT_FORMATS.join(', ')}`),
+  sortValidation,
+  ...filterValidation,
+];
+
+const importUploadValidation = [
+  body('mode')
+    .optional()
+    .isIn(WEB_IMPORT_MODES)
+    .withMessage(`Mode must be one of: ${WEB_IMPORT_MODES.join(', ')}`),
+  body('sheet')
+    .optional()
+    .isString()
+    .isLength({ max: 100 })
+    .withMessage('Sheet must not exceed 100 characters'),
+  body('delimiter')
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: 5 })
+    .withMessage('Delimiter must be between 1 and 5 characters'),
+  body('encoding')
+    .optional()
+    .isString()
+    .isLength({ max: 50 })
+    .withMessage('Encoding must not exceed 50 characters'),
+  body('mapping')
+    .optional()
+    .isJSON()
+    .withMessage('Mapping must be valid JSON'),
+  body('createTerms')
+    .optional()
+    .isBoolean()
+    .withMessage('createTerms must be true or false')
+    .toBoolean(),
+];
+
+const importIdValidation = [
+  param('id')
+    .isUUID()
+    .withMessage('Import ID must be a UUID'),
+];
+
+const idParamValidation = [
+  param('id')
+    .isInt({ min: 1 })
+    .withMessage('ID must be a positive integer'),
+];
+
+const usernameRule = () => body('username')
+  .trim()
+  .toLowerCase()
+  .notEmpty()
+  .withMessage('Username is required')
+  .isLength({ min: 3, max: 50 })
+  .withMessage('Username must be between 3 and 50 characters')
+  .matches(/^[a-z0-9._-]+$/)
+  .withMessage('Username may only contain letters, digits, dots, dashes and underscores');
+
+const passwordRule = () => body('password')
+  .isString()
+  .isLength({ min: 8, max: 200 })
+  .withMessage('Password must be between 8 and 200 characters');
+
+const roleRule = () => body('role')
+  .isIn(Object.values(UserRole))
+  .withMessage(`Role must be one of: ${Object.values(UserRole).join(', ')}`);
+
+const loginValidation = [
+  usernameRule(),
+  body('password')
+    .isString()
+    .notEmpty()
+    .withMessage('Password is required'),
+];
+
+const createUserValidation = [
+  usernameRule(),
+  passwordRule(),
+  roleRule().optional(),
+];
+
+const updateUserValidation = [
+  ...idParamValidation,
+  passwordRule().optional(),
+  roleRule().optional(),
+];
+
+const workflowValidation = (commentRequired: boolean) => [
+  ...idParamValidation,
+  (commentRequired ? body('comment') : body('comment').optional())
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('A comment is required')
+    .isLength({ max: 2000 })
+    .withMessage('Comment must not exceed 2000 characters'),
+];
+
+const duplicatesValidation = [
+  query('threshold')
+    .optional()
+    .isFloat({ min: 0.3, max: 1 })
+    .withMessage('Threshold must be between 0.3 and 1'),
+];
+
+const relatedValidation = [
+  ...idParamValidation,
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 20 })
+    .withMessage('Limit must be between 1 and 20'),
+];
+
+const similarNamesValidation = [
+  query('useCase')
+    .isString()
+    .trim()
+    .isLength({ min: 3, max: FIELD_LENGTH_LIMITS.useCase.max })
+    .withMessage(`Use case name must be between 3 and ${FIELD_LENGTH_LIMITS.useCase.max} characters`),
+];
+
+const mergeValidation = [
+  ...idParamValidation,
+  body('sourceId')
+    .isInt({ min: 1 })
+    .withMessage('Source ID must be a positive integer')
+    .toInt(),
+];
+
+const taxonomyTypeRule = () => body('type')
+  .isIn(TAXONOMY_TYPES)
+  .withMessage(`Type must be one of: ${TAXONOMY_TYPES.join(', ')}`);
+
+const taxonomyTermRules = () => [
+  body('aliases')
+    .optional()
+    .isArray({ max: 50 })
+    .withMessage('Aliases must be a list of at most 50 values'),
+  body('aliases.*')
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('Aliases must not be empty')
+    .isLength({ max: TAXONOMY_NAME_MAX_LENGTH })
+    .withMessage(`Aliases must not exceed ${TAXONOMY_NAME_MAX_LENGTH} characters`),
+  body('sortOrder')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Sort order must be a non-negative integer')
+    .toInt(),
+];
+
+const taxonomyNameRule = () => body('name')
+  .isString()
+  .trim()
+  .notEmpty()
+  .withMessage('Name is required')
+  .isLength({ max: TAXONOMY_NAME_MAX_LENGTH })
+  .withMessage(`Name must not exceed ${TAXONOMY_NAME_MAX_LENGTH} characters`);
+
+const taxonomyQueryValidation = [
+  query('type')
+    .optional()
+    .isIn(TAXONOMY_TYPES)
+    .withMessage(`Type must be one of: ${TAXONOMY_TYPES.join(', ')}`),
+];
+
+const createTaxonomyTermValidation = [
+  taxonomyTypeRule(),
+  taxonomyNameRule(),
+  ...taxonomyTermRules(),
+];
+
+const updateTaxonomyTermValidation = [
+  ...idParamValidation,
+  taxonomyNameRule().optional(),
+  ...taxonomyTermRules(),
+];
+
+const taxonomyMergeValidation = [
+  taxonomyTypeRule(),
+  body('values')
+    .isArray({ min: 1, max: 100 })
+    .withMessage('Values must be a list of 1 to 100 values'),
+  body('values.*')
+    .isString()
+    .notEmpty()
+    .withMessage('Values must not be empty'),
+  body('into')
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('The value to merge into is required')
+    .isLength({ max: TAXONOMY_NAME_MAX_LENGTH })
+    .withMessage(`The value to merge into must not exceed ${TAXONOMY_NAME_MAX_LENGTH} characters`),
+];
+
+const taxonomyOrderValidation = [
+  taxonomyTypeRule(),
+  body('ids')
+    .isArray({ min: 1 })
+    .withMessage('IDs must be a non-empty list'),
+  body('ids.*')
+    .isInt({ min: 1 })
+    .withMessage('IDs must be positive integers')
+    .toInt(),
+];
+
+const tagCloudValidation = [
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 500 })
+    .withMessage('Limit must be between 1 and 500'),
+];
+
+const revisionParamValidation = [
+  ...idParamValidation,
+  param('revisionId')
+    .isInt({ min: 1 })
+    .withMessage('Revision ID must be a positive integer'),
+];
+
+// Validation result handler
+const handleValidationErrors: RequestHandler = (
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): void => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    next(new ValidationAppError(errors.array()));
+    return;
+  }
+  next();
+};
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+// Fields of a user that are safe to return from the API
+const publicUserSelect = {
+  id: true,
+  username: true,
+  role: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.UserSelect;
+
+// Industries and departments returned with a use case in the taxonomy order, tags alphabetically
+const useCaseRelationsInclude = useCaseTermsInclude;
+
+type UseCaseAccess = { id: number; status: UseCaseStatus; createdBy: string | null };
+
+const isAuthor = (req: Pick<Request, 'user'>, useCase: UseCaseAccess): boolean =>
+  req.user !== undefined && useCase.createdBy === req.user.username;
+
+/**
+ * Only editors and the author may see use cases that are not published.
+ * Others get a 404 so unpublished entries are not revealed.
+ */
+const assertVisible = (req: Pick<Request, 'user'>, useCase: UseCaseAccess): void => {
+  if (useCase.status !== 'PUBLISHED' && !hasRole(req.user, 'EDITOR') && !isAuthor(req, useCase)) {
+    throw new NotFoundError('UseCase', useCase.id);
+  }
+};
+
+/**
+ * Editors may change any use case. Contributors may change their own drafts
+ * and submissions under review, e.g. to address a rejection.
+ */
+const assertEditable = (req: Pick<Request, 'user'>, useCase: UseCaseAccess): void => {
+  assertVisible(req, useCase);
+  if (hasRole(req.user, 'EDITOR')) {
+    return;
+  }
+  if (!isAuthor(req, useCase) || (useCase.status !== 'DRAFT' && useCase.status !== 'IN_REVIEW')) {
+    throw new ForbiddenError('Forbidden: Only editors can change use cases other than your own drafts and submissions');
+  }
+};
+
+/**
+ * Reads a list query parameter into trimmed values. Repeated values (or
+ * "industry[]=...") are taken as they are, since term names and tags may
+ * contain commas; only a single plain value is split on commas.
+ */
+const parseListParam = (value: unknown): string[] =>
+  (Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [])
+    .filter((item): item is string => typeof item === 'string')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+
+/**
+ * Reads the list filters from the query string.
+ * Only editors may look beyond published use cases, others only at their own
+ * submissions (mine=true).
+ */
+const parseUseCaseFilters = (req: Request<object, object, object, FilterQuery>): UseCaseFilters => {
+  const parseSelection = (field: FacetField): FacetSelection => ({
+    include: parseListParam(req.query[field]),
+    exclude: parseListParam(req.query[EXCLUDE_PARAMS[field]]),
+  });
+
+  const filters: UseCaseFilters = {
+    industry: parseSelection('industry'),
+    valueChainStep: parseSelection('valueChainStep'),
+    department: parseSelection('department'),
+    tags: parseListParam(req.query.tags),
+    search: req.query.search?.trim() || null,
+    status: req.query.status ?? 'PUBLISHED',
+    createdBy: null,
+  };
+
+  if (req.query.mine === 'true') {
+    if (!req.user) {
+      throw new UnauthorizedError('Sign in to list your own submissions');
+    }
+    filters.createdBy = req.user.username;
+  }
+
+  if (filters.status !== 'PUBLISHED' && !hasRole(req.user, 'EDITOR') && !filters.createdBy) {
+    throw new ForbiddenError('Forbidden: Only editors can list unpublished use cases');
+  }
+
+  return filters;
+};
+
+/**
+ * Builds the Prisma where clause for the taxonomy, tag and status filters.
+ * Values within a facet are combined with OR, facets with AND, so a use case
+ * matches an industry filter if any of its industries is selected. Excluded
+ * values keep use cases that have no value for the facet at all.
+ * Full-text search is applied separately because it needs raw SQL.
+ * Pass omit to leave out one facet, e.g. when counting its own options.
+ */
+const buildUseCaseWhere = (filters: UseCaseFilters, omit?: FacetField): Prisma.UseCaseWhereInput => {
+  const conditions: Prisma.UseCaseWhereInput[] = [];
+
+  if (filters.status !== 'all') {
+    conditions.push({ status: filters.status });
+  }
+
+  if (filters.createdBy) {
+    conditions.push({ createdBy: filters.createdBy });
+  }
+
+  for (const field of FACET_FIELDS) {
+    if (field === omit) {
+      continue;
+    }
+
+    const { include, exclude } = filters[field];
+    const type = FACET_TAXONOMY_TYPES[field];
+
+    if (isLinkedTaxonomy(type)) {
+      const relation = TAXONOMY_FIELDS[type];
+      const namedAny = (values: string[]): Prisma.TaxonomyTermWhereInput => ({
+        OR: values.map((value) => ({ name: { equals: value, mode: 'insensitive' } })),
+      });
+
+      if (include.length > 0) {
+        conditions.push({ [relation]: { some: namedAny(include) } });
+      }
+      if (exclude.length > 0) {
+        conditions.push({ [relation]: { none: namedAny(exclude) } });
+      }
+      continue;
+    }
+
+    const matchesAny = (values: string[]): Prisma.UseCaseWhereInput[] =>
+      values.map((value) => ({ valueChainStep: { equals: value, mode: 'insensitive' } }));
+
+    if (include.length > 0) {
+      conditions.push({ OR: matchesAny(include) });
+    }
+    if (exclude.length > 0) {
+      conditions.push({ OR: [{ valueChainStep: null }, { NOT: matchesAny(exclude) }] });
+    }
+  }
+
+  if (filters.tags.length > 0) {
+    conditions.push({
+      tags: { some: { OR: filters.tags.map((tag) => ({ name: { equals: tag, mode: 'insensitive' } })) } },
+    });
+  }
+
+  return { AND: conditions };
+};
+
+/**
+ * Counts use cases per value of a facet. Returns every value that exists within
+ * the status scope, so options that the other filters exclude get a count of 0.
+ * Values of taxonomy terms come first in the term order, any other value chain
+ * steps follow alphabetically.
+ */
+const countFacetOptions = async (
+  field: FacetField,
+  filters: UseCaseFilters,
+  searchIds: number[] | null
+): Promise<FacetOption[]> => {
+  const type = FACET_TAXONOMY_TYPES[field];
+  const noSelection: FacetSelection = { include: [], exclude: [] };
+  const statusOnly: UseCaseFilters = {
+    ...filters,
+    industry: noSelection,
+    valueChainStep: noSelection,
+    department: noSelection,
+    tags: [],
+  };
+  const scope = buildUseCaseWhere(statusOnly);
+  const where: Prisma.UseCaseWhereInput = {
+    AND: [
+      scope,
+      buildUseCaseWhere(filters, field),
+      ...(searchIds ? [{ id: { in: searchIds } }] : []),
+    ],
+  };
+
+  if (isLinkedTaxonomy(type)) {
+    const [inScope, matching] = await Promise.all([
+      countLinkedUseCases(prisma, { type }, scope),
+      countLinkedUseCases(prisma, { type }, where),
+    ]);
+    const counts = new Map(matching.map((term) => [term.id, term.useCaseCount]));
+
+    return inScope
+      .filter(({ useCaseCount }) => useCaseCount > 0)
+      .map(({ id, name }) => ({ value: name, count: counts.get(id) ?? 0 }));
+  }
+
+  const [terms, allValues, matching] = await Promise.all([
+    prisma.taxonomyTerm.findMany({ where: { type }, orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }] }),
+    prisma.useCase.groupBy({ by: ['valueChainStep'], where: { AND: [scope, { valueChainStep: { not: null } }] } }),
+    prisma.useCase.groupBy({ by: ['valueChainStep'], where, _count: { _all: true } }),
+  ]);
+  const termOrder = new Map(terms.map((term, index) => [term.name, index]));
+  const counts = new Map(matching.map((group) => [group.valueChainStep, group._count._all]));
+
+  return allValues
+    .flatMap(({ valueChainStep: value }) => (value ? [{ value, count: counts.get(value) ?? 0 }] : []))
+    .sort((a, b) => {
+      const orderA = termOrder.get(a.value) ?? Infinity;
+      const orderB = termOrder.get(b.value) ?? Infinity;
+      return orderA === orderB ? a.value.localeCompare(b.value) : orderA - orderB;
+    });
+};
+
+/**
+ * Narrows the where clause to the full-text matches if a search is given.
+ * The ranks are returned for relevance ordering and highlighting.
+ */
+const applySearch = async (
+  filters: UseCaseFilters
+): Promise<{ where: Prisma.UseCaseWhereInput; ranks: Map<number, number> | null }> => {
+  const where = buildUseCaseWhere(filters);
+  if (!filters.search) {
+    return { where, ranks: null };
+  }
+
+  const ranks = await rankUseCaseMatches(prisma, filters.search);
+  return { where: { AND: [where, { id: { in: [...ranks.keys()] } }] }, ranks };
+};
+
+/**
+ * Applies the filters in the database, then orders the matches by rank
+ */
+const orderIdsByRank = async (where: Prisma.UseCaseWhereInput, ranks: Map<number, number>): Promise<number[]> => {
+  const matching = await prisma.useCase.findMany({ where, select: { id: true } });
+  return matching
+    .map(({ id }) => id)
+    .sort((a, b) => (ranks.get(b) ?? 0) - (ranks.get(a) ?? 0) || b - a);
+};
+
+/**
+ * Loads use cases by ID, keeping the order of the given IDs
+ */
+const findUseCasesInOrder = async (ids: number[]): Promise<UseCaseWithRelations[]> => {
+  const rows = await prisma.useCase.findMany({ where: { id: { in: ids } }, include: useCaseRelationsInclude });
+  const rowsById = new Map(rows.map((row) => [row.id, row]));
+  return ids.flatMap((id) => rowsById.get(id) ?? []);
+};
+
+/**
+ * Returns one page of the filtered search matches ordered by relevance
+ */
+const findRankedUseCases = async (
+  where: Prisma.UseCaseWhereInput,
+  ranks: Map<number, number>,
+  skip: number,
+  take: number
+): Promise<{ rows: UseCaseWithRelations[]; total: number }> => {
+  const orderedIds = await orderIdsByRank(where, ranks);
+
+  return {
+    rows: await findUseCasesInOrder(orderedIds.slice(skip, skip + take)),
+    total: orderedIds.length,
+  };
+};
+
+/**
+ * Yields every matching use case in the requested order, loading them in
+ * batches so an export never holds the whole library in memory
+ */
+async function* iterateUseCases(
+  where: Prisma.UseCaseWhereInput,
+  sort: SortOption,
+  ranks: Map<number, number> | null
+): AsyncGenerator<UseCaseWithTerms> {
+  if (ranks && sort === 'relevance') {
+    const orderedIds = await orderIdsByRank(where, ranks);
+    for (let start = 0; start < orderedIds.length; start += EXPORT_BATCH_SIZE) {
+      yield* await findUseCasesInOrder(orderedIds.slice(start, start + EXPORT_BATCH_SIZE));
+    }
+    return;
+  }
+
+  const orderBy = SORT_ORDERS[sort === 'relevance' ? 'newest' : sort];
+  let cursor: number | undefined;
+
+  for (;;) {
+    const batch = await prisma.useCase.findMany({
+      where,
+      orderBy,
+      include: useCaseTermsInclude,
+      take: EXPORT_BATCH_SIZE,
+      ...(cursor !== undefined ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+    yield* batch;
+
+    const last = batch[batch.length - 1];
+    if (!last || batch.length < EXPORT_BATCH_SIZE) {
+      return;
+    }
+    cursor = last.id;
+  }
+}
+
+/**
+ * Identifies who made a change for the revision log
+ */
+const getActor = (req: Pick<Request, 'user'>): string | null => req.user?.username ?? null;
+
+/**
+ * Issues a signed session token for the given user
+ */
+const signToken = (user: AuthUser): string =>
+  jwt.sign({ sub: String(user.id), role: user.role }, JWT_SECRET, {
+    expiresIn: JWT_EXPIRES_IN as NonNullable<jwt.SignOptions['expiresIn']>,
+  });
+
+/**
+ * Throws a 409 if another use case already uses this name (case-insensitive).
+ * Pass excludeId when updating so a record does not conflict with itself.
+ */
+const assertUniqueUseCaseName = async (name: string, excludeId?: number): Promise<void> => {
+  const existing = await prisma.useCase.findFirst({
+    where: {
+      useCase: {
+        equals: name.trim(),
+        mode: 'insensitive',
+      },
+      ...(excludeId !== undefined ? { id: { not: excludeId } } : {}),
+    },
+  });
+
+  if (existing) {
+    throw new AppError('A use case with this name already exists', 409);
+  }
+};
+
+/**
+ * Maps the column fields of an update request body to Prisma update data.
+ * Fields that are absent are left untouched; empty optional fields are cleared.
+ * The value chain step is stored under its canonical name. Industries,
+ * departments and tags are linked by the update handler.
+ */
+const buildUseCaseUpdateData = (
+  input: UseCaseUpdateRequest,
+  resolveTaxonomy: TaxonomyResolver
+): Prisma.UseCaseUpdateInput => {
+  const data: Prisma.UseCaseUpdateInput = {};
+  const optional = (value: string): string | null => value.trim() || null;
+
+  if (input.useCase !== undefined) data.useCase = input.useCase.trim();
+  if (input.conceptDescription !== undefined) {
+    data.conceptDescription = input.conceptDescription.trim();
+  }
+  if (input.concreteImplementation !== undefined) {
+    data.concreteImplementation = optional(input.concreteImplementation);
+  }
+  if (input.benefit !== undefined) data.benefit = optional(input.benefit);
+  if (input.valueChainStep !== undefined) {
+    data.valueChainStep = resolveTaxonomy('VALUE_CHAIN_STEP', input.valueChainStep);
+  }
+  if (input.url !== undefined) data.url = optional(input.url);
+
+  return data;
+};
+
+/**
+ * Throws a 409 if a name or alias already belongs to another term of the type.
+ * Pass excludeId when updating so a term does not conflict with itself.
+ */
+const assertTaxonomyValuesAvailable = async (
+  type: TaxonomyType,
+  values: string[],
+  excludeId?: number
+): Promise<void> => {
+  const terms = await prisma.taxonomyTerm.findMany({
+    where: { type, ...(excludeId !== undefined ? { id: { not: excludeId } } : {}) },
+  });
+  const byKey = indexTaxonomyTerms(terms);
+
+  for (const value of values) {
+    const owner = byKey.get(normalizeTaxonomyKey(value));
+    if (owner) {
+      throw new AppError(`"${value}" is already used by the term "${owner.name}"`, 409);
+    }
+  }
+};
+
+/**
+ * Adds the number of use cases linked to each industry and department term
+ * or holding the name of each value chain step
+ */
+const withUsageCounts = async (terms: TaxonomyTerm[]): Promise<TermWithUseCaseCount[]> => {
+  const [linked, valueChainSteps] = await Promise.all([
+    countLinkedUseCases(prisma, { id: { in: terms.filter(({ type }) => isLinkedTaxonomy(type)).map(({ id }) => id) } }),
+    prisma.useCase.groupBy({
+      by: ['valueChainStep'],
+      where: { valueChainStep: { not: null } },
+      _count: { _all: true },
+    }),
+  ]);
+  const linkedCounts = new Map(linked.map((term) => [term.id, term.useCaseCount]));
+  const valueChainStepCounts = new Map(valueChainSteps.map((group) => [group.valueChainStep, group._count._all]));
+
+  return terms.map((term) => ({
+    ...term,
+    useCaseCount: (isLinkedTaxonomy(term.type) ? linkedCounts.get(term.id) : valueChainStepCounts.get(term.name)) ?? 0,
+  }));
+};
+
+// Fields of an import batch for the history list, without the per-row outcomes
+const importBatchSummarySelect = {
+  id: true,
+  fileName: true,
+  mode: true,
+  createdBy: true,
+  stats: true,
+  rolledBackAt: true,
+  rolledBackBy: true,
+  createdAt: true,
+} satisfies Prisma.ImportBatchSelect;
+
+// Fields compared when looking for related use cases
+const relatedUseCaseSelect = {
+  id: true,
+  useCase: true,
+  conceptDescription: true,
+  benefit: true,
+  valueChainStep: true,
+  ...useCaseTermsInclude,
+} satisfies Prisma.UseCaseSelect;
+
+// Fields of a use case shown in the duplicate report
+const duplicateCandidateSelect = {
+  id: true,
+  useCase: true,
+  conceptDescription: true,
+  status: true,
+  updatedAt: true,
+  ...useCaseTermsInclude,
+} satisfies Prisma.UseCaseSelect;
+
+/**
+ * Maps a use case to the input of findRelated, which compares industries and departments by name
+ */
+const toRelatedInput = (useCase: Prisma.UseCaseGetPayload<{ select: typeof relatedUseCaseSelect }>): RelatedInput => ({
+  ...useCase,
+  industries: useCase.industries.map(({ name }) => name),
+  departments: useCase.departments.map(({ name }) => name),
+});
+
+// Import previews are stored until committed or expired
+const removeExpiredImports = async (): Promise<void> => {
+  await prisma.importPreview.deleteMany({ where: { expiresAt: { lte: new Date() } } });
+};
+
+/**
+ * Reads an uploaded import file with the given mapping and options.
+ * Unreadable files and invalid mappings are reported as bad requests.
+ */
+const readImportUpload = async (
+  file: Express.Multer.File,
+  { sheet, delimiter, encoding, mapping: mappingJson }: ImportUploadRequest
+): Promise<{ format: ImportFormat; mapping: ColumnMapping; sourceRows: SourceRow[] }> => {
+  const format = detectImportFormat(file.originalname);
+  if (!format) {
+    throw new AppError(`Unsupported file type, expected one of: ${IMPORT_FORMATS.join(', ')}`, 400);
+  }
+
+  // Tab-separated files need no delimiter
+  const tabSeparated = path.extname(file.originalname).toLowerCase() === '.tsv';
+
+  try {
+    const mapping = mappingJson ? parseColumnMapping(JSON.parse(mappingJson)) : DEFAULT_COLUMN_MAPPING;
+    const sourceRows = await readSourceRows(file.buffer, format, {
+      ...(delimiter ? { delimiter } : tabSeparated ? { delimiter: '\t' } : {}),
+      ...(encoding ? { encoding } : {}),
+      ...(sheet ? { sheet } : {}),
+    });
+    return { format, mapping, sourceRows };
+  } catch (error) {
+    throw new AppError(`Cannot read the import file: ${error instanceof Error ? error.message : error}`, 400);
+  }
+};
+
+// =============================================================================
+// API ROUTES
+// =============================================================================
+
+// Health check endpoint
+app.get('/health', (_req: Request, res: Response) => {
+  res.status(200).json({
+    status: 'healthy',
+    timestamp: new Date().toISOString(),
+    uptime: process.uptime(),
+  });
+});
+
+// POST /api/auth/login - Exchange username and password for a session token
+app.post(
+  '/api/auth/login',
+  loginValidation,
+  handleValidationErrors,
+  async (req: Request<object, object, LoginRequest>, res: Response, next: NextFunction) => {
+    try {
+      const { username, password } = req.body;
+
+      const user = await prisma.user.findUnique({
+        where: { username },
+      });
+
+      // Same error for unknown users and wrong passwords to avoid leaking usernames
+      if (!user || !(await bcrypt.compare(password, user.passwordHash))) {
+        throw new UnauthorizedError('Invalid username or password');
+      }
+
+      const authUser: AuthUser = { id: user.id, username: user.username, role: user.role };
+
+      res.status(200).json({
+        message: 'Login successful',
+        data: {
+          token: signToken(authUser),
+          user: authUser,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/auth/me - Get the currently authenticated user
+app.get(
+  '/api/auth/me',
+  requireRole('VIEWER'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: req.user?.id ?? 0 },
+        select: publicUserSelect,
+      });
+
+      if (!user) {
+        throw new UnauthorizedError();
+      }
+
+      res.status(200).json({ data: user });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/use-cases - List all use cases with pagination and filtering
+app.get(
+  '/api/use-cases',
+  paginationValidation,
+  handleValidationErrors,
+  async (req: Request<object, object, object, PaginationQuery>, res: Response, next: NextFunction) => {
+    try {
+      const page = parseInt(req.query.page ?? '1', 10);
+      const limit = parseInt(req.query.limit ?? '20', 10);
+      const skip = (page - 1) * limit;
+
+      const filters = parseUseCaseFilters(req);
+      const { search } = filters;
+      const sort = req.query.sort ?? (search ? 'relevance' : 'newest');
+      const { where, ranks } = await applySearch(filters);
+
+      let rows: UseCaseWithRelations[];
+      let total: number;
+
+      if (ranks && sort === 'relevance') {
+        ({ rows, total } = await findRankedUseCases(where, ranks, skip, limit));
+      } else {
+        // Execute queries in parallel
+        [rows, total] = await Promise.all([
+          prisma.useCase.findMany({
+            where,
+            skip,
+            take: limit,
+            orderBy: SORT_ORDERS[sort === 'relevance' ? 'newest' : sort],
+            include: useCaseRelationsInclude,
+          }),
+          prisma.useCase.count({ where }),
+        ]);
+      }
+
+      // Highlight the matched terms of search results
+      const matches = search && ranks
+        ? await buildSearchMatches(prisma, search, ranks, rows.map((row) => row.id))
+        : new Map<number, SearchMatch>();
+      const useCases: UseCaseListItem[] = rows.map((row) => ({
+        ...row,
+        searchMatch: matches.get(row.id) ?? null,
+      }));
+
+      const totalPages = Math.ceil(total / limit);
+
+      const response: PaginatedResponse<UseCaseListItem> = {
+        data: useCases,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1,
+        },
+        filters,
+        sort,
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/use-cases/export - Download every use case matching the list filters
+app.get(
+  '/api/use-cases/export',
+  exportValidation,
+  handleValidationErrors,
+  async (req: Request<object, object, object, ExportQuery>, res: Response, next: NextFunction) => {
+    try {
+      const format = req.query.format ?? 'csv';
+      const filters = parseUseCaseFilters(req);
+      const sort = req.query.sort ?? (filters.search ? 'relevance' : 'newest');
+      const { where, ranks } = await applySearch(filters);
+      const fileName = `use-cases-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+      res.status(200);
+      res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+
+      await writeExport(format, iterateUseCases(where, sort, ranks), res);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/use-cases/filters - Get available filter options with result counts
+// Each facet is counted with all other active filters and the search applied.
+app.get(
+  '/api/use-cases/filters',
+  filterValidation,
+  handleValidationErrors,
+  async (req: Request<object, object, object, FilterQuery>, res: Response, next: NextFunction) => {
+    try {
+      const filters = parseUseCaseFilters(req);
+      const searchIds = filters.search
+        ? [...(await rankUseCaseMatches(prisma, filters.search)).keys()]
+        : null;
+
+      const [industries, valueChainSteps, departments] = await Promise.all([
+        countFacetOptions('industry', filters, searchIds),
+        countFacetOptions('valueChainStep', filters, searchIds),
+        countFacetOptions('department', filters, searchIds),
+      ]);
+
+      res.status(200).json({
+        industries,
+        valueChainSteps,
+        departments,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/tags - Tags of published use cases with their usage counts, most used first
+app.get(
+  '/api/tags',
+  tagCloudValidation,
+  handleValidationErrors,
+  async (req: Request<object, object, object, TagCloudQuery>, res: Response, next: NextFunction) => {
+    try {
+      const limit = parseInt(req.query.limit ?? String(DEFAULT_TAG_CLOUD_LIMIT), 10);
+
+      const tags = await prisma.tag.findMany({
+        select: {
+          id: true,
+          name: true,
+          _count: { select: { useCases: { where: { status: 'PUBLISHED' } } } },
+        },
+      });
+
+      const cloud = tags
+        .map(({ id, name, _count }) => ({ id, name, count: _count.useCases }))
+        .filter(({ count }) => count > 0)
+        .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+        .slice(0, limit);
+
+      res.status(200).json({ data: cloud });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/use-cases/similar-names - Existing use cases with a name like the given one
+// Backs the duplicate warning of the submission form. Editors also see unpublished
+// use cases; archived ones are never suggested.
+app.get(
+  '/api/use-cases/similar-names',
+  requireRole('CONTRIBUTOR'),
+  similarNamesValidation,
+  handleValidationErrors,
+  async (req: Request<object, object, object, SimilarNamesQuery>, res: Response, next: NextFunction) => {
+    try {
+      const useCase = req.query.useCase ?? '';
+
+      // Only use cases sharing the start of a word are scored; four letters
+      // still catch typos and word forms ("predictve", "machines")
+      const prefixes = [...new Set(tokenize(useCase).map((token) => token.substring(0, 4)))];
+      if (prefixes.length === 0) {
+        res.status(200).json({ data: [] });
+        return;
+      }
+
+      // Every candidate is scored (names only), so common prefixes cannot crowd out the closest match
+      const candidates = await prisma.useCase.findMany({
+        where: {
+          status: hasRole(req.user, 'EDITOR') ? { not: 'ARCHIVED' } : 'PUBLISHED',
+          OR: prefixes.map((prefix) => ({ useCase: { contains: prefix, mode: 'insensitive' as const } })),
+        },
+        select: { id: true, useCase: true },
+      });
+
+      const matches = findSimilar(
+        buildProfile({ id: 0, useCase, conceptDescription: '' }),
+        candidates.map((candidate) => buildProfile({ ...candidate, conceptDescription: '' })),
+        SIMILAR_NAME_THRESHOLD,
+        SIMILAR_NAMES_LIMIT
+      );
+
+      const details = await prisma.useCase.findMany({
+        where: { id: { in: matches.map(({ id }) => id) } },
+        select: { id: true, useCase: true, status: true, industries: useCaseTermsInclude.industries },
+      });
+      const byId = new Map(details.map((candidate) => [candidate.id, candidate]));
+
+      res.status(200).json({
+        data: matches.flatMap(({ id, score }) => {
+          const candidate = byId.get(id);
+          return candidate ? [{ ...candidate, score }] : [];
+        }),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/use-cases/duplicates - Report clusters of likely duplicates (Editor)
+// Compares names and descriptions of every use case that is not archived.
+app.get(
+  '/api/use-cases/duplicates',
+  requireRole('EDITOR'),
+  duplicatesValidation,
+  handleValidationErrors,
+  async (req: Request<object, object, object, DuplicatesQuery>, res: Response, next: NextFunction) => {
+    try {
+      const threshold = req.query.threshold ? parseFloat(req.query.threshold) : DUPLICATE_THRESHOLD;
+
+      const useCases = await prisma.useCase.findMany({
+        where: { status: { not: 'ARCHIVED' } },
+        select: duplicateCandidateSelect,
+        orderBy: { id: 'asc' },
+      });
+
+      const byId = new Map(useCases.map((useCase) => [useCase.id, useCase]));
+      const clusters = findDuplicateClusters(useCases.map(buildProfile), threshold).map(({ ids, pairs }) => ({
+        useCases: ids.flatMap((id) => byId.get(id) ?? []),
+        pairs,
+      }));
+
+      res.status(200).json({ data: clusters, threshold });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/use-cases/:id - Get a single use case by ID
+app.get(
+  '/api/use-cases/:id',
+  idParamValidation,
+  handleValidationErrors,
+  async (req: Request<{ id: string }>, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+
+      const useCase = await prisma.useCase.findUnique({
+        where: { id },
+        include: useCaseRelationsInclude,
+      });
+
+      if (!useCase) {
+        throw new NotFoundError('UseCase', id);
+      }
+
+      assertVisible(req, useCase);
+
+      res.status(200).json({ data: useCase });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/use-cases/:id/views - Count a view of a use case
+// Sent by the detail page only, so loading a use case for editing does not
+// inflate the "most viewed" sort.
+app.post(
+  '/api/use-cases/:id/views',
+  idParamValidation,
+  handleValidationErrors,
+  async (req: Request<{ id: string }>, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+
+      const useCase = await prisma.useCase.findUnique({
+        where: { id },
+        select: { id: true, status: true, createdBy: true },
+      });
+
+      if (!useCase) {
+        throw new NotFoundError('UseCase', id);
+      }
+
+      assertVisible(req, useCase);
+
+      // Count views of the public library only. Raw SQL keeps updatedAt
+      // untouched, so the "recently updated" sort reflects real edits.
+      const counted = useCase.status === 'PUBLISHED'
+        ? await prisma.$executeRaw`UPDATE use_cases SET view_count = view_count + 1 WHERE id = ${id}`
+        : 0;
+
+      res.status(200).json({ data: { counted: counted > 0 } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/use-cases/:id/similar - Closest published use cases to this one
+// Ranked by text similarity of name, description and benefit, boosted by
+// shared industries, departments and value chain step.
+app.get(
+  '/api/use-cases/:id/similar',
+  relatedValidation,
+  handleValidationErrors,
+  async (req: Request<{ id: string }, object, object, RelatedQuery>, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const limit = parseInt(req.query.limit ?? String(DEFAULT_RELATED_LIMIT), 10);
+
+      const useCase = await prisma.useCase.findUnique({
+        where: { id },
+        include: useCaseTermsInclude,
+      });
+
+      if (!useCase) {
+        throw new NotFoundError('UseCase', id);
+      }
+
+      assertVisible(req, useCase);
+
+      const library = await prisma.useCase.findMany({
+        where: { status: 'PUBLISHED' },
+        select: relatedUseCaseSelect,
+      });
+
+      const byId = new Map(library.map((candidate) => [candidate.id, candidate]));
+      const related = findRelated(toRelatedInput(useCase), library.map(toRelatedInput), limit).flatMap(({ id: relatedId, score, sharedTaxonomy }) => {
+        const candidate = byId.get(relatedId);
+        return candidate ? [{ ...candidate, score, sharedTaxonomy }] : [];
+      });
+
+      res.status(200).json({ data: related });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/use-cases - Create a new use case (Contributor)
+// Industries and departments must name existing terms or their aliases.
+app.post(
+  '/api/use-cases',
+  requireRole('CONTRIBUTOR'),
+  createUseCaseValidation,
+  handleValidationErrors,
+  async (req: Request<object, object, UseCaseCreateRequest>, res: Response, next: NextFunction) => {
+    try {
+      const {
+        useCase,
+        conceptDescription,
+        concreteImplementation,
+        benefit,
+        industries,
+        departments,
+        valueChainStep,
+        url,
+        tags,
+      } = req.body;
+
+      // Check for duplicate use case name
+      await assertUniqueUseCaseName(useCase);
+
+      const resolveTaxonomy = await loadTaxonomyResolver(prisma);
+
+      const newUseCase = await prisma.$transaction(async (tx) => {
+        const created = await tx.useCase.create({
+          data: {
+            useCase: useCase.trim(),
+            conceptDescription: conceptDescription.trim(),
+            concreteImplementation: concreteImplementation?.trim() ?? null,
+            benefit: benefit?.trim() ?? null,
+            valueChainStep: resolveTaxonomy('VALUE_CHAIN_STEP', valueChainStep),
+            url: url?.trim() ?? null,
+            status: 'IN_REVIEW',
+            createdBy: getActor(req),
+            industries: { connect: await resolveTaxonomyTermIds(tx, 'INDUSTRY', industries ?? []) },
+            departments: { connect: await resolveTaxonomyTermIds(tx, 'DEPARTMENT', departments ?? []) },
+            tags: { connect: await resolveTagIds(tx, tags ?? []) },
+          },
+          include: useCaseRelationsInclude,
+        });
+        await recordRevision(tx, created, 'CREATE', getActor(req));
+        return created;
+      });
+
+      res.status(201).json({
+        message: 'Use case submitted for review',
+        data: newUseCase,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PUT/PATCH /api/use-cases/:id - Update an existing use case (Editor, or the author of a draft or submission)
+// PUT expects the full set of required fields, PATCH accepts any subset.
+// Industries and departments must name existing terms or their aliases.
+const updateUseCaseHandler = async (
+  req: Request<{ id: string }, object, UseCaseUpdateRequest>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const id = parseInt(req.params.id, 10);
+
+    const existing = await prisma.useCase.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      throw new NotFoundError('UseCase', id);
+    }
+
+    assertEditable(req, existing);
+
+    if (req.body.useCase !== undefined) {
+      await assertUniqueUseCaseName(req.body.useCase, id);
+    }
+
+    const resolveTaxonomy = await loadTaxonomyResolver(prisma);
+
+    const updatedUseCase = await prisma.$transaction(async (tx) => {
+      const updated = await tx.useCase.update({
+        where: { id },
+        data: {
+          ...buildUseCaseUpdateData(req.body, resolveTaxonomy),
+          ...(req.body.industries !== undefined
+            ? { industries: { set: await resolveTaxonomyTermIds(tx, 'INDUSTRY', req.body.industries) } }
+            : {}),
+          ...(req.body.departments !== undefined
+            ? { departments: { set: await resolveTaxonomyTermIds(tx, 'DEPARTMENT', req.body.departments) } }
+            : {}),
+          ...(req.body.tags !== undefined ? { tags: { set: await resolveTagIds(tx, req.body.tags) } } : {}),
+        },
+        include: useCaseRelationsInclude,
+      });
+      await recordRevision(tx, updated, 'UPDATE', getActor(req));
+      return updated;
+    });
+
+    res.status(200).json({
+      message: 'Use case updated successfully',
+      data: updatedUseCase,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+app.put(
+  '/api/use-cases/:id',
+  requireRole('CONTRIBUTOR'),
+  idParamValidation,
+  createUseCaseValidation,
+  handleValidationErrors,
+  updateUseCaseHandler
+);
+
+app.patch(
+  '/api/use-cases/:id',
+  requireRole('CONTRIBUTOR'),
+  idParamValidation,
+  updateUseCaseValidation,
+  handleValidationErrors,
+  updateUseCaseHandler
+);
+
+// DELETE /api/use-cases/:id - Delete a use case (Editor)
+app.delete(
+  '/api/use-cases/:id',
+  requireRole('EDITOR'),
+  idParamValidation,
+  handleValidationErrors,
+  async (req: Request<{ id: string }>, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+
+      const existing = await prisma.useCase.findUnique({
+        where: { id },
+        include: useCaseRelationsInclude,
+      });
+
+      if (!existing) {
+        throw new NotFoundError('UseCase', id);
+      }
+
+      await prisma.$transaction(async (tx) => {
+        await tx.useCase.delete({
+          where: { id },
+        });
+        await recordRevision(tx, existing, 'DELETE', getActor(req));
+      });
+
+      res.status(200).json({
+        message: 'Use case deleted successfully',
+        data: existing,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/use-cases/:id/history - List all revisions of a use case (newest first)
+// Also works for deleted use cases, so they can be restored.
+app.get(
+  '/api/use-cases/:id/history',
+  idParamValidation,
+  handleValidationErrors,
+  async (req: Request<{ id: string }>, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+
+      const revisions = await prisma.useCaseRevision.findMany({
+        where: { useCaseId: id },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      });
+
+      if (revisions.length === 0) {
+        throw new NotFoundError('UseCase history', id);
+      }
+
+      const current = await prisma.useCase.findUnique({
+        where: { id },
+        select: { id: true, status: true, createdBy: true },
+      });
+
+      if (current) {
+        assertVisible(req, current);
+      } else if (!hasRole(req.user, 'EDITOR')) {
+        // Deleted use cases can only be inspected and restored by editors
+        throw new NotFoundError('UseCase history', id);
+      }
+
+      res.status(200).json({
+        data: revisions.map((revision) => ({
+          ...revision,
+          snapshot: parseSnapshot(revision.snapshot),
+        })),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/use-cases/:id/history/:revisionId/restore - Restore an earlier version (Editor)
+// Recreates the use case with its original ID if it has been deleted. Fails if
+// one of its industries or departments no longer exists as a term.
+app.post(
+  '/api/use-cases/:id/history/:revisionId/restore',
+  requireRole('EDITOR'),
+  revisionParamValidation,
+  handleValidationErrors,
+  async (req: Request<{ id: string; revisionId: string }>, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const revisionId = parseInt(req.params.revisionId, 10);
+
+      const revision = await prisma.useCaseRevision.findFirst({
+        where: { id: revisionId, useCaseId: id },
+      });
+
+      if (!revision) {
+        throw new NotFoundError('Revision', revisionId);
+      }
+
+      const snapshot = parseSnapshot(revision.snapshot);
+      await assertUniqueUseCaseName(snapshot.useCase, id);
+
+      const restoredUseCase = await prisma.$transaction(async (tx) => {
+        const { columns, industries, departments, tags } = await resolveSnapshotTerms(tx, snapshot);
+        const restored = await tx.useCase.upsert({
+          where: { id },
+          update: {
+            ...columns,
+            industries: { set: industries },
+            departments: { set: departments },
+            tags: { set: tags },
+          },
+          create: {
+            id,
+            ...columns,
+            industries: { connect: industries },
+            departments: { connect: departments },
+            tags: { connect: tags },
+          },
+          include: useCaseRelationsInclude,
+        });
+        await recordRevision(tx, restored, 'RESTORE', getActor(req));
+        return restored;
+      });
+
+      res.status(200).json({
+        message: 'Use case restored successfully',
+        data: restoredUseCase,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/use-cases/:id/merge - Merge a duplicate (sourceId) into this use case (Editor)
+// Empty fields are filled from the duplicate and its industries, departments and tags
+// are added. The duplicate is archived with a link to the kept use case. Both keep
+// their revision history.
+app.post(
+  '/api/use-cases/:id/merge',
+  requireRole('EDITOR'),
+  mergeValidation,
+  handleValidationErrors,
+  async (req: Request<{ id: string }, object, MergeRequest>, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const { sourceId } = req.body;
+
+      if (sourceId === id) {
+        throw new AppError('A use case cannot be merged into itself', 400);
+      }
+
+      const result = await prisma.$transaction(async (tx) => {
+        // Lock both rows in a fixed order, so concurrent merges of the same pair
+        // (A into B and B into A) run one after the other and cannot form a cycle
+        await tx.$queryRaw`SELECT id FROM use_cases WHERE id IN (${id}, ${sourceId}) ORDER BY id FOR UPDATE`;
+
+        const target = await tx.useCase.findUnique({ where: { id }, include: useCaseRelationsInclude });
+        const source = await tx.useCase.findUnique({ where: { id: sourceId }, include: useCaseRelationsInclude });
+
+        if (!target) {
+          throw new NotFoundError('UseCase', id);
+        }
+        if (!source) {
+          throw new NotFoundError('UseCase', sourceId);
+        }
+        if (target.mergedIntoId !== null) {
+          throw new AppError(`Use case #${id} has itself been merged into #${target.mergedIntoId}`, 409);
+        }
+        if (source.mergedIntoId !== null) {
+          throw new AppError(`Use case #${sourceId} has already been merged into #${source.mergedIntoId}`, 409);
+        }
+
+        // The kept use case must still pass its own validation afterwards
+        const limits = [
+          ['industries', MAX_TAXONOMY_VALUES],
+          ['departments', MAX_TAXONOMY_VALUES],
+          ['tags', MAX_TAGS],
+        ] as const;
+        for (const [relation, max] of limits) {
+          const count = new Set([...target[relation], ...source[relation]].map((item) => item.id)).size;
+          if (count > max) {
+            throw new AppError(
+              `Merging would give use case #${id} ${count} ${relation}, at most ${max} are allowed. Remove some first.`,
+              409
+            );
+          }
+        }
+
+        const filledFields = MERGE_FILL_FIELDS.filter((field) => !target[field] && source[field]);
+        const fill = Object.fromEntries(filledFields.map((field) => [field, source[field]]));
+
+        const merged = await tx.useCase.update({
+          where: { id },
+          data: {
+            ...fill,
+            viewCount: { increment: source.viewCount },
+            industries: { connect: source.industries.map((term) => ({ id: term.id })) },
+            departments: { connect: source.departments.map((term) => ({ id: term.id })) },
+            tags: { connect: source.tags.map((tag) => ({ id: tag.id })) },
+          },
+          include: useCaseRelationsInclude,
+        });
+        await recordRevision(tx, merged, 'UPDATE', getActor(req), `Merged with #${sourceId} "${source.useCase}"`);
+
+        // Duplicates merged into the source earlier now point to the kept use case
+        await tx.useCase.updateMany({
+          where: { mergedIntoId: sourceId },
+          data: { mergedIntoId: id },
+        });
+
+        const comment = `Merged into #${id} "${target.useCase}"`;
+        const archived = await tx.useCase.update({
+          where: { id: sourceId },
+          data: { status: 'ARCHIVED', mergedIntoId: id, reviewComment: comment },
+          include: useCaseRelationsInclude,
+        });
+        await recordRevision(tx, archived, 'ARCHIVE', getActor(req), comment);
+
+        return { merged, archived, filledFields };
+      });
+
+      res.status(200).json({
+        message: 'Use cases merged successfully',
+        data: { useCase: result.merged, mergedUseCase: result.archived, filledFields: result.filledFields },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// =============================================================================
+// EDITORIAL WORKFLOW
+// =============================================================================
+
+// Allowed status transitions. Rejected use cases go back to DRAFT with the
+// reviewer's comment and can be resubmitted by a contributor.
+const WORKFLOW_TRANSITIONS: Record<'submit' | 'approve' | 'reject' | 'archive', WorkflowTransition> = {
+  submit: {
+    from: ['DRAFT'],
+    to: 'IN_REVIEW',
+    role: 'CONTRIBUTOR',
+    revisionAction: 'SUBMIT',
+    commentRequired: false,
+  },
+  approve: {
+    from: ['IN_REVIEW', 'ARCHIVED'],
+    to: 'PUBLISHED',
+    role: 'EDITOR',
+    revisionAction: 'APPROVE',
+    commentRequired: false,
+  },
+  reject: {
+    from: ['IN_REVIEW'],
+    to: 'DRAFT',
+    role: 'EDITOR',
+    revisionAction: 'REJECT',
+    commentRequired: true,
+  },
+  archive: {
+    from: ['DRAFT', 'IN_REVIEW', 'PUBLISHED'],
+    to: 'ARCHIVED',
+    role: 'EDITOR',
+    revisionAction: 'ARCHIVE',
+    commentRequired: false,
+  },
+};
+
+// POST /api/use-cases/:id/{submit|approve|reject|archive} - Change the editorial status
+// A rejected use case goes back to its author as a draft, who can edit and resubmit it.
+for (const [action, transition] of Object.entries(WORKFLOW_TRANSITIONS)) {
+  app.post(
+    `/api/use-cases/:id/${action}`,
+    requireRole(transition.role),
+    workflowValidation(transition.commentRequired),
+    handleValidationErrors,
+    async (req: Request<{ id: string }, object, WorkflowRequest>, res: Response, next: NextFunction) => {
+      try {
+        const id = parseInt(req.params.id, 10);
+        const comment = req.body.comment?.trim() || null;
+
+        const existing = await prisma.useCase.findUnique({
+          where: { id },
+        });
+
+        if (!existing) {
+          throw new NotFoundError('UseCase', id);
+        }
+
+        assertEditable(req, existing);
+
+        if (!transition.from.includes(existing.status)) {
+          throw new AppError(
+            `Cannot ${action} a use case with status ${existing.status}`,
+            409
+          );
+        }
+
+        const updatedUseCase = await prisma.$transaction(async (tx) => {
+          const updated = await tx.useCase.update({
+            where: { id },
+            data: {
+              status: transition.to,
+              reviewComment: comment,
+            },
+            include: useCaseRelationsInclude,
+          });
+          await recordRevision(tx, updated, transition.revisionAction, getActor(req), comment);
+          return updated;
+        });
+
+        res.status(200).json({
+          message: `Use case status changed to ${transition.to}`,
+          data: updatedUseCase,
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+}
+
+// =============================================================================
+// BULK IMPORT
+// =============================================================================
+
+// POST /api/imports - Upload a CSV, XLSX, JSON or JSONL file and preview the import (Editor)
+// Nothing is written yet. Every row is validated and classified (insert, update,
+// unchanged, duplicate or skip); the preview can be committed by its ID. Rows with
+// unknown industries or departments are skipped unless createTerms is set.
+app.post(
+  '/api/imports',
+  requireRole('EDITOR'),
+  importUpload,
+  importUploadValidation,
+  handleValidationErrors,
+  async (req: Request<object, object, ImportUploadRequest>, res: Response, next: NextFunction) => {
+    try {
+      await removeExpiredImports();
+
+      if (!req.file) {
+        throw new AppError('An import file is required', 400);
+      }
+
+      const mode = req.body.mode ?? 'insert';
+      const createTerms = req.body.createTerms ?? false;
+      const { format, mapping, sourceRows } = await readImportUpload(req.file, req.body);
+      const rows = sourceRows.map(({ rowNumber, record }) => ({
+        rowNumber,
+        row: applyColumnMapping(mapping, record),
+      }));
+      const plan = await planImport(prisma, rows, mapping, mode, createTerms);
+
+      const summary = createImportStats(plan.length);
+      plan.forEach((planned) => countPlannedRow(summary, planned));
+
+      const pending = await prisma.importPreview.create({
+        data: {
+          userId: req.user?.id ?? 0,
+          fileName: req.file.originalname,
+          mode,
+          createTerms,
+          rows: plan.map(plannedRowToJson),
+          expiresAt: new Date(Date.now() + IMPORT_PREVIEW_TTL_MS),
+        },
+      });
+
+      res.status(201).json({
+        message: 'Import preview created',
+        data: {
+          id: pending.id,
+          fileName: pending.fileName,
+          format,
+          mode,
+          // Headers found in the file, for mapping them to fields
+          headers: [...new Set(sourceRows.flatMap(({ record }) => Object.keys(record)))],
+          mapping,
+          summary,
+          rows: plan,
+          expiresAt: pending.expiresAt,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/imports/:id/commit - Write a previewed import (Editor who uploaded it)
+// Rows are written one by one; a failing row is reported and does not stop the others.
+app.post(
+  '/api/imports/:id/commit',
+  requireRole('EDITOR'),
+  importIdValidation,
+  handleValidationErrors,
+  async (req: Request<{ id: string }>, res: Response, next: NextFunction) => {
+    try {
+      await removeExpiredImports();
+
+      const pending = await prisma.importPreview.findFirst({
+        where: { id: req.params.id, userId: req.user?.id ?? 0 },
+      });
+      const mode = WEB_IMPORT_MODES.find((webMode) => webMode === pending?.mode);
+      if (!pending || !mode) {
+        throw new NotFoundError('Import', req.params.id);
+      }
+
+      // Removed up front so a second click or another instance cannot import the rows twice
+      const { count } = await prisma.importPreview.deleteMany({ where: { id: pending.id } });
+      if (count === 0) {
+        throw new NotFoundError('Import', req.params.id);
+      }
+
+      const plan = parsePlannedRows(pending.rows);
+      const stats: ImportStats = createImportStats(plan.length);
+      const issues: RowIssue[] = [];
+      const outcomes: ImportOutcome[] = [];
+      const batchId = await createImportBatch(prisma, pending.fileName, mode, getActor(req));
+
+      try {
+        for (const planned of plan) {
+          try {
+            const outcome = await applyPlannedRow(prisma, planned, getActor(req), batchId, pending.createTerms);
+            const issue = countAppliedRow(stats, planned, outcome);
+            if (issue) {
+              issues.push(issue);
+            }
+            outcomes.push(outcome);
+          } catch (error) {
+            const issue = countFailedRow(stats, planned.rowNumber, planned.useCase, error);
+            issues.push(issue);
+            outcomes.push(toFailedOutcome(issue));
+          }
+        }
+      } finally {
+        // Also recorded when the import stops early, so the rows written so far can be rolled back
+        await finishImportBatch(prisma, batchId, stats, outcomes);
+      }
+
+      res.status(200).json({
+        message: stats.errors > 0 ? 'Import completed with errors' : 'Import completed successfully',
+        data: {
+          id: pending.id,
+          batchId,
+          fileName: pending.fileName,
+          mode,
+          stats,
+          issues,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/imports - List recorded imports, newest first (Editor)
+app.get(
+  '/api/imports',
+  requireRole('EDITOR'),
+  async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      const batches = await prisma.importBatch.findMany({
+        select: importBatchSummarySelect,
+        orderBy: { createdAt: 'desc' },
+        take: IMPORT_HISTORY_LIMIT,
+      });
+
+      res.status(200).json({ data: batches });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/imports/:id - Get a recorded import with its per-row outcomes (Editor)
+app.get(
+  '/api/imports/:id',
+  requireRole('EDITOR'),
+  idParamValidation,
+  handleValidationErrors,
+  async (req: Request<{ id: string }>, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+
+      const batch = await prisma.importBatch.findUnique({
+        where: { id },
+      });
+
+      if (!batch) {
+        throw new NotFoundError('Import', id);
+      }
+
+      res.status(200).json({
+        data: { ...batch, rows: parseImportOutcomes(batch.rows) },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/imports/:id/rollback - Undo a recorded import (Editor)
+// Deletes the use cases it created and reverts the ones it updated or archived,
+// except those changed since the import.
+app.post(
+  '/api/imports/:id/rollback',
+  requireRole('EDITOR'),
+  idParamValidation,
+  handleValidationErrors,
+  async (req: Request<{ id: string }>, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+
+      const batch = await prisma.importBatch.findUnique({
+        where: { id },
+      });
+
+      if (!batch) {
+        throw new NotFoundError('Import', id);
+      }
+
+      if (batch.rolledBackAt) {
+        throw new AppError('This import has already been rolled back', 409);
+      }
+
+      const result = await rollbackImportBatch(prisma, batch, getActor(req));
+      const rolledBack = await prisma.importBatch.findUniqueOrThrow({
+        where: { id },
+        select: importBatchSummarySelect,
+      });
+
+      res.status(200).json({
+        message: result.skipped.length > 0
+          ? 'Import rolled back, some use cases were changed since and have been kept'
+          : 'Import rolled back successfully',
+        data: { batch: rolledBack, result },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/users - List all user accounts (Admin)
+app.get(
+  '/api/users',
+  requireRole('ADMIN'),
+  async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      const users = await prisma.user.findMany({
+        select: publicUserSelect,
+        orderBy: { username: 'asc' },
+      });
+
+      res.status(200).json({ data: users });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/users - Create a user account (Admin)
+app.post(
+  '/api/users',
+  requireRole('ADMIN'),
+  createUserValidation,
+  handleValidationErrors,
+  async (req: Request<object, object, UserCreateRequest>, res: Response, next: NextFunction) => {
+    try {
+      const { username, password, role } = req.body;
+
+      const existing = await prisma.user.findUnique({
+        where: { username },
+      });
+
+      if (existing) {
+        throw new AppError('A user with this username already exists', 409);
+      }
+
+      const newUser = await prisma.user.create({
+        data: {
+          username,
+          passwordHash: await bcrypt.hash(password, BCRYPT_ROUNDS),
+          role: role ?? 'VIEWER',
+        },
+        select: publicUserSelect,
+      });
+
+      res.status(201).json({
+        message: 'User created successfully',
+        data: newUser,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PATCH /api/users/:id - Change a user's role or password (Admin)
+app.patch(
+  '/api/users/:id',
+  requireRole('ADMIN'),
+  updateUserValidation,
+  handleValidationErrors,
+  async (req: Request<{ id: string }, object, UserUpdateRequest>, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const { password, role } = req.body;
+
+      const existing = await prisma.user.findUnique({
+        where: { id },
+      });
+
+      if (!existing) {
+        throw new NotFoundError('User', id);
+      }
+
+      if (id === req.user?.id && role !== undefined && role !== 'ADMIN') {
+        throw new AppError('You cannot remove your own admin role', 409);
+      }
+
+      const data: Prisma.UserUpdateInput = {};
+      if (role !== undefined) data.role = role;
+      if (password !== undefined) data.passwordHash = await bcrypt.hash(password, BCRYPT_ROUNDS);
+
+      const updatedUser = await prisma.user.update({
+        where: { id },
+        data,
+        select: publicUserSelect,
+      });
+
+      res.status(200).json({
+        message: 'User updated successfully',
+        data: updatedUser,
+      });
+    } catch (error) {
+      next(error);
     }
   }
-  next();
-};
+);
 
-app.use('/api', apiKeyAuthMiddleware);
+// DELETE /api/users/:id - Delete a user account (Admin)
+app.delete(
+  '/api/users/:id',
+  requireRole('ADMIN'),
+  idParamValidation,
+  handleValidationErrors,
+  async (req: Request<{ id: string }>, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params.id, 10);
 
-// =============================================================================
-// VALIDATION RULES
-// =============================================================================
+      if (id === req.user?.id) {
+        throw new AppError('You cannot delete your own account', 409);
+      }
 
-const urlRegex = /^(https?:\/\/)?([\da-z.-]+)\.([a-z.]{2,6})([/\w .-]*)*\/?$/i;
+      const existing = await prisma.user.findUnique({
+        where: { id },
+        select: publicUserSelect,
+      });
 
-const createUseCaseValidation = [
-  body('useCase')
-    .trim()
-    .notEmpty()
-    .withMessage('Use case name is required')
-    .isLength({ min: 3, max: 500 })
-    .withMessage('Use case must be between 3 and 500 characters'),
-  body('conceptDescription')
-    .trim()
-    .notEmpty()
-    .withMessage('Concept description is required')
-    .isLength({ min: 10, max: 10000 })
-    .withMessage('Concept description must be between 10 and 10000 characters'),
-  body('concreteImplementation')
-    .optional()
-    .trim()
-    .isLength({ max: 10000 })
-    .withMessage('Concrete implementation must not exceed 10000 characters'),
-  body('benefit')
-    .optional()
-    .trim()
-    .isLength({ max: 5000 })
-    .withMessage('Benefit must not exceed 5000 characters'),
-  body('industry')
-    .optional()
-    .trim()
-    .isLength({ max: 200 })
-    .withMessage('Industry must not exceed 200 characters'),
-  body('department')
-    .optional()
-    .trim()
-    .isLength({ max: 200 })
-    .withMessage('Department must not exceed 200 characters'),
-  body('valueChainStep')
-    .optional()
-    .trim()
-    .isLength({ max: 200 })
-    .withMessage('Value chain step must not exceed 200 characters'),
-  body('url')
-    .optional()
-    .trim()
-    .custom((value: string) => {
-      if (value && value.length > 0 && !urlRegex.test(value)) {
-        throw new Error('Invalid URL format');
+      if (!existing) {
+        throw new NotFoundError('User', id);
       }
-      return true;
-    }),
-];
-
-const paginationValidation = [
-  query('page')
-    .optional()
-    .isInt({ min: 1 })
-    .withMessage('Page must be a positive integer'),
-  query('limit')
-    .optional()
-    .isInt({ min: 1, max: 100 })
-    .withMessage('Limit must be between 1 and 100'),
-  query('industry')
-    .optional()
-    .trim()
-    .isLength({ max: 200 }),
-  query('valueChainStep')
-    .optional()
-    .trim()
-    .isLength({ max: 200 }),
-  query('department')
-    .optional()
-    .trim()
-    .isLength({ max: 200 }),
-  query('search')
-    .optional()
-    .trim()
-    .isLength({ max: 500 }),
-];
 
-const idParamValidation = [
-  param('id')
-    .isInt({ min: 1 })
-    .withMessage('ID must be a positive integer'),
-];
+      await prisma.user.delete({
+        where: { id },
+      });
 
-// Validation result handler
-const handleValidationErrors: RequestHandler = (
-  req: Request,
-  _res: Response,
-  next: NextFunction
-): void => {
-  const errors = validationResult(req);
-  if (!errors.isEmpty()) {
-    next(new ValidationAppError(errors.array()));
-    return;
+      res.status(200).json({
+        message: 'User deleted successfully',
+        data: existing,
+      });
+    } catch (error) {
+      next(error);
+    }
   }
-  next();
-};
+);
 
 // =============================================================================
-// API ROUTES
+// TAXONOMY
 // =============================================================================
 
-// Health check endpoint
-app.get('/health', (_req: Request, res: Response) => {
-  res.status(200).json({
-    status: 'healthy',
-    timestamp: new Date().toISOString(),
-    uptime: process.uptime(),
-  });
-});
+// GET /api/taxonomy - List taxonomy terms in their order, optionally of one type
+app.get(
+  '/api/taxonomy',
+  taxonomyQueryValidation,
+  handleValidationErrors,
+  async (req: Request<object, object, object, TaxonomyQuery>, res: Response, next: NextFunction) => {
+    try {
+      const terms = await prisma.taxonomyTerm.findMany({
+        where: req.query.type ? { type: req.query.type } : {},
+        orderBy: [{ type: 'asc' }, { sortOrder: 'asc' }, { name: 'asc' }],
+      });
 
-// GET /api/use-cases - List all use cases with pagination and filtering
+      res.status(200).json({ data: await withUsageCounts(terms) });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/taxonomy/values - List every distinct value with its usage count (Editor)
+// Value chain steps are matched to the term they resolve to, unmanaged values have
+// none. Every industry and department is a term.
 app.get(
-  '/api/use-cases',
-  paginationValidation,
+  '/api/taxonomy/values',
+  requireRole('EDITOR'),
+  taxonomyQueryValidation,
   handleValidationErrors,
-  async (req: Request<object, object, object, PaginationQuery>, res: Response, next: NextFunction) => {
+  async (req: Request<object, object, object, TaxonomyQuery>, res: Response, next: NextFunction) => {
     try {
-      const page = parseInt(req.query.page ?? '1', 10);
-      const limit = parseInt(req.query.limit ?? '20', 10);
-      const skip = (page - 1) * limit;
+      const types = req.query.type ? [req.query.type] : TAXONOMY_TYPES;
+      const values = await Promise.all(types.map((type) => listTaxonomyValues(prisma, type)));
 
-      const industry = req.query.industry?.trim() ?? null;
-      const valueChainStep = req.query.valueChainStep?.trim() ?? null;
-      const department = req.query.department?.trim() ?? null;
-      const search = req.query.search?.trim() ?? null;
+      res.status(200).json({ data: values.flat() });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
 
-      // Build where clause
-      const where: Prisma.UseCaseWhereInput = {};
+// GET /api/taxonomy/merges - List recent taxonomy merges, newest first (Editor)
+app.get(
+  '/api/taxonomy/merges',
+  requireRole('EDITOR'),
+  async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      const merges = await prisma.taxonomyMerge.findMany({
+        orderBy: { createdAt: 'desc' },
+        take: TAXONOMY_MERGE_HISTORY_LIMIT,
+      });
 
-      if (industry) {
-        where.industry = {
-          equals: industry,
-          mode: 'insensitive',
-        };
-      }
+      res.status(200).json({ data: merges });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
 
-      if (valueChainStep) {
-        where.valueChainStep = {
-          equals: valueChainStep,
-          mode: 'insensitive',
-        };
-      }
+// POST /api/taxonomy/merge - Merge variant values into one canonical value (Editor)
+// Relinks or rewrites all affected use cases in one transaction and records the merge.
+app.post(
+  '/api/taxonomy/merge',
+  requireRole('EDITOR'),
+  taxonomyMergeValidation,
+  handleValidationErrors,
+  async (req: Request<object, object, TaxonomyMergeRequest>, res: Response, next: NextFunction) => {
+    try {
+      const { type, values, into } = req.body;
 
-      if (department) {
-        where.department = {
-          equals: department,
-          mode: 'insensitive',
-        };
-      }
+      const result = await prisma.$transaction(
+        (tx) => mergeTaxonomyValues(tx, type, values, into, getActor(req)),
+        { timeout: TAXONOMY_MERGE_TIMEOUT_MS }
+      );
 
-      if (search) {
-        where.OR = [
-          { useCase: { contains: search, mode: 'insensitive' } },
-          { conceptDescription: { contains: search, mode: 'insensitive' } },
-          { benefit: { contains: search, mode: 'insensitive' } },
-        ];
-      }
+      const [term] = await withUsageCounts([result.term]);
+      res.status(200).json({
+        message: `Merged ${result.merge.useCaseCount} use case${result.merge.useCaseCount === 1 ? '' : 's'} into "${result.term.name}"`,
+        data: { term, merge: result.merge },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
 
-      // Execute queries in parallel
-      const [useCases, total] = await Promise.all([
-        prisma.useCase.findMany({
-          where,
-          skip,
-          take: limit,
-          orderBy: { createdAt: 'desc' },
-        }),
-        prisma.useCase.count({ where }),
-      ]);
+// POST /api/taxonomy - Create a taxonomy term (Admin)
+// Value chain steps holding the name or an alias in another spelling are rewritten to the name.
+app.post(
+  '/api/taxonomy',
+  requireRole('ADMIN'),
+  createTaxonomyTermValidation,
+  handleValidationErrors,
+  async (req: Request<object, object, TaxonomyTermRequest>, res: Response, next: NextFunction) => {
+    try {
+      const { type, name, sortOrder } = req.body;
+      const aliases = cleanAliases(name, req.body.aliases ?? []);
 
-      const totalPages = Math.ceil(total / limit);
+      await assertTaxonomyValuesAvailable(type, [name, ...aliases]);
 
-      const response: PaginatedResponse<typeof useCases[number]> = {
-        data: useCases,
-        pagination: {
-          page,
-          limit,
-          total,
-          totalPages,
-          hasNext: page < totalPages,
-          hasPrev: page > 1,
-        },
-        filters: {
-          industry,
-          valueChainStep,
-          department,
-          search,
-        },
-      };
+      const last = await prisma.taxonomyTerm.findFirst({
+        where: { type },
+        orderBy: { sortOrder: 'desc' },
+      });
 
-      res.status(200).json(response);
+      const term = await prisma.$transaction(async (tx) => {
+        const created = await tx.taxonomyTerm.create({
+          data: {
+            type,
+            name,
+            aliases,
+            sortOrder: sortOrder ?? (last ? last.sortOrder + 1 : 0),
+          },
+        });
+        await applyTaxonomyTerm(tx, created, getActor(req), `Taxonomy term "${created.name}" created`);
+        return created;
+      });
+
+      const [withCount] = await withUsageCounts([term]);
+      res.status(201).json({
+        message: 'Taxonomy term created successfully',
+        data: withCount,
+      });
     } catch (error) {
       next(error);
     }
   }
 );
 
-// GET /api/use-cases/filters - Get available filter options
-app.get('/api/use-cases/filters', async (_req: Request, res: Response, next: NextFunction) => {
-  try {
-    const [industries, valueChainSteps, departments] = await Promise.all([
-      prisma.useCase.findMany({
-        where: { industry: { not: null } },
-        select: { industry: true },
-        distinct: ['industry'],
-        orderBy: { industry: 'asc' },
-      }),
-      prisma.useCase.findMany({
-        where: { valueChainStep: { not: null } },
-        select: { valueChainStep: true },
-        distinct: ['valueChainStep'],
-        orderBy: { valueChainStep: 'asc' },
-      }),
-      prisma.useCase.findMany({
-        where: { department: { not: null } },
-        select: { department: true },
-        distinct: ['department'],
-        orderBy: { department: 'asc' },
-      }),
-    ]);
+// PUT /api/taxonomy/order - Put all terms of a type in the given order (Admin)
+// For value chain steps this is the sequence of the chain.
+app.put(
+  '/api/taxonomy/order',
+  requireRole('ADMIN'),
+  taxonomyOrderValidation,
+  handleValidationErrors,
+  async (req: Request<object, object, TaxonomyOrderRequest>, res: Response, next: NextFunction) => {
+    try {
+      const { type, ids } = req.body;
 
-    res.status(200).json({
-      industries: industries.map((i) => i.industry).filter(Boolean),
-      valueChainSteps: valueChainSteps.map((v) => v.valueChainStep).filter(Boolean),
-      departments: departments.map((d) => d.department).filter(Boolean),
-    });
-  } catch (error) {
-    next(error);
+      const terms = await prisma.taxonomyTerm.findMany({
+        where: { type },
+        select: { id: true },
+      });
+      const expected = new Set(terms.map(({ id }) => id));
+
+      if (ids.length !== expected.size || new Set(ids).size !== ids.length || ids.some((id) => !expected.has(id))) {
+        throw new AppError('The order must list every term of the type exactly once', 400);
+      }
+
+      const ordered = await prisma.$transaction(
+        ids.map((id, index) => prisma.taxonomyTerm.update({
+          where: { id },
+          data: { sortOrder: index },
+        }))
+      );
+
+      res.status(200).json({
+        message: 'Taxonomy order updated successfully',
+        data: await withUsageCounts(ordered),
+      });
+    } catch (error) {
+      next(error);
+    }
   }
-});
+);
 
-// GET /api/use-cases/:id - Get a single use case by ID
-app.get(
-  '/api/use-cases/:id',
-  idParamValidation,
+// PATCH /api/taxonomy/:id - Rename a term, replace its aliases or move it (Admin)
+// A rename rewrites every use case holding the old name, or records a revision
+// for the use cases linked to a renamed industry or department.
+app.patch(
+  '/api/taxonomy/:id',
+  requireRole('ADMIN'),
+  updateTaxonomyTermValidation,
   handleValidationErrors,
-  async (req: Request<{ id: string }>, res: Response, next: NextFunction) => {
+  async (req: Request<{ id: string }, object, TaxonomyTermUpdateRequest>, res: Response, next: NextFunction) => {
     try {
       const id = parseInt(req.params.id, 10);
 
-      const useCase = await prisma.useCase.findUnique({
+      const existing = await prisma.taxonomyTerm.findUnique({
         where: { id },
       });
 
-      if (!useCase) {
-        throw new NotFoundError('UseCase', id);
+      if (!existing) {
+        throw new NotFoundError('TaxonomyTerm', id);
       }
 
-      res.status(200).json({ data: useCase });
+      const name = req.body.name ?? existing.name;
+      const aliases = cleanAliases(name, req.body.aliases ?? existing.aliases);
+
+      await assertTaxonomyValuesAvailable(existing.type, [name, ...aliases], id);
+
+      const term = await prisma.$transaction(async (tx) => {
+        const updated = await tx.taxonomyTerm.update({
+          where: { id },
+          data: {
+            name,
+            aliases,
+            ...(req.body.sortOrder !== undefined ? { sortOrder: req.body.sortOrder } : {}),
+          },
+        });
+        const comment = updated.name === existing.name
+          ? `Taxonomy term "${updated.name}" updated`
+          : `Taxonomy term "${existing.name}" renamed to "${updated.name}"`;
+        await applyTaxonomyTerm(tx, updated, getActor(req), comment, [existing.name]);
+        return updated;
+      });
+
+      const [withCount] = await withUsageCounts([term]);
+      res.status(200).json({
+        message: 'Taxonomy term updated successfully',
+        data: withCount,
+      });
     } catch (error) {
       next(error);
     }
   }
 );
 
-// POST /api/use-cases - Create a new use case (Protected by API Key)
-app.post(
-  '/api/use-cases',
-  createUseCaseValidation,
+// DELETE /api/taxonomy/:id - Delete a taxonomy term (Admin)
+// Use cases keep a value chain step as free text. Industries and departments
+// that use cases are linked to have to be merged into another value instead.
+app.delete(
+  '/api/taxonomy/:id',
+  requireRole('ADMIN'),
+  idParamValidation,
   handleValidationErrors,
-  async (req: Request<object, object, UseCaseCreateRequest>, res: Response, next: NextFunction) => {
+  async (req: Request<{ id: string }>, res: Response, next: NextFunction) => {
     try {
-      const {
-        useCase,
-        conceptDescription,
-        concreteImplementation,
-        benefit,
-        industry,
-        department,
-        valueChainStep,
-        url,
-      } = req.body;
+      const id = parseInt(req.params.id, 10);
 
-      // Check for duplicate use case name
-      const existing = await prisma.useCase.findFirst({
-        where: {
-          useCase: {
-            equals: useCase.trim(),
-            mode: 'insensitive',
-          },
-        },
+      const existing = await prisma.taxonomyTerm.findUnique({
+        where: { id },
       });
 
-      if (existing) {
-        throw new AppError('A use case with this name already exists', 409);
+      if (!existing) {
+        throw new NotFoundError('TaxonomyTerm', id);
       }
 
-      const newUseCase = await prisma.useCase.create({
-        data: {
-          useCase: useCase.trim(),
-          conceptDescription: conceptDescription.trim(),
-          concreteImplementation: concreteImplementation?.trim() ?? null,
-          benefit: benefit?.trim() ?? null,
-          industry: industry?.trim() ?? null,
-          department: department?.trim() ?? null,
-          valueChainStep: valueChainStep?.trim() ?? null,
-          url: url?.trim() ?? null,
-        },
+      if (isLinkedTaxonomy(existing.type)) {
+        const [usage] = await countLinkedUseCases(prisma, { id });
+        const useCaseCount = usage?.useCaseCount ?? 0;
+        if (useCaseCount > 0) {
+          throw new AppError(
+            `"${existing.name}" is used by ${useCaseCount} use case${useCaseCount === 1 ? '' : 's'}, merge it into another value instead`,
+            409
+          );
+        }
+      }
+
+      await prisma.taxonomyTerm.delete({
+        where: { id },
       });
 
-      res.status(201).json({
-        message: 'Use case created successfully',
-        data: newUseCase,
+      res.status(200).json({
+        message: 'Taxonomy term deleted successfully',
+        data: existing,
       });
     } catch (error) {
       next(error);
@@ -499,6 +2816,24 @@ app.use((error: Error, _req: Request, res: Response, _next: NextFunction) => {
   }
   console.error('='.repeat(80));
 
+  // A streamed response such as an export has already started, so it can only be aborted
+  if (res.headersSent) {
+    res.destroy();
+    return;
+  }
+
+  // Handle upload errors (file too large, unexpected field)
+  if (error instanceof multer.MulterError) {
+    res.status(error.code === 'LIMIT_FILE_SIZE' ? 413 : 400).json({
+      success: false,
+      error: error.code === 'LIMIT_FILE_SIZE'
+        ? `The file exceeds the limit of ${MAX_IMPORT_FILE_SIZE / 1024 / 1024} MB`
+        : error.message,
+      code: 'UPLOAD_ERROR',
+    });
+    return;
+  }
+
   // Handle Prisma errors
   if (error instanceof Prisma.PrismaClientKnownRequestError) {
     if (error.code === 'P2002') {
@@ -542,6 +2877,21 @@ app.use((error: Error, _req: Request, res: Response, _next: NextFunction) => {
     return;
   }
 
+  // Industries and departments must be existing terms
+  if (error instanceof UnknownTaxonomyValueError) {
+    res.status(400).json({
+      success: false,
+      error: error.message,
+      code: 'VALIDATION_ERROR',
+      details: error.values.map((value) => ({
+        field: TAXONOMY_FIELDS[error.type],
+        message: `Unknown value "${value}"`,
+      })),
+      allowed: error.allowed,
+    });
+    return;
+  }
+
   // Handle custom application errors
   if (error instanceof AppError) {
     res.status(error.statusCode).json({
@@ -566,18 +2916,51 @@ app.use((error: Error, _req: Request, res: Response, _next: NextFunction) => {
 // SERVER STARTUP
 // =============================================================================
 
+/**
+ * Creates the initial admin account from ADMIN_USERNAME / ADMIN_PASSWORD
+ * if no user with that name exists yet.
+ */
+const ensureBootstrapAdmin = async (): Promise<void> => {
+  const username = process.env['ADMIN_USERNAME']?.trim().toLowerCase();
+  const password = process.env['ADMIN_PASSWORD'];
+
+  if (!username || !password) {
+    return;
+  }
+
+  const existing = await prisma.user.findUnique({ where: { username } });
+  if (existing) {
+    return;
+  }
+
+  await prisma.user.create({
+    data: {
+      username,
+      passwordHash: await bcrypt.hash(password, BCRYPT_ROUNDS),
+      role: 'ADMIN',
+    },
+  });
+  console.log(`👤 Created initial admin account "${username}"`);
+};
+
 const startServer = async (): Promise<void> => {
   try {
+    if (!JWT_SECRET) {
+      throw new Error('JWT_SECRET is not configured. Set it in the environment to sign session tokens.');
+    }
+
     // Test database connection
     await prisma.$connect();
     console.log('✅ Database connection established');
 
+    await ensureBootstrapAdmin();
+
     // Start Express server
     app.listen(PORT, () => {
       console.log('='.repeat(60));
       console.log(`🚀 Server running on http://localhost:${PORT}`);
       console.log(`📊 Environment: ${process.env['NODE_ENV'] ?? 'development'}`);
-      console.log(`🔐 API Key Protection: ${API_KEY ? 'Enabled' : 'Disabled'}`);
+      console.log(`🔐 Authentication: JWT (tokens expire after ${JWT_EXPIRES_IN})`);
       console.log('='.repeat(60));
     });
   } catch (error) {
@@ -0,0 +1,333 @@
+/**
+ * Use Case Similarity
+ *
+ * Fuzzy matching of use cases by name and concept description, computed in
+ * process. Names are compared by character trigrams (catches spelling and
+ * word-form variants) and by shared words (catches names that extend one
+ * another, such as "Predictive Maintenance" and "Predictive maintenance for
+ * machines"). Descriptions are compared by word overlap.
+ *
+ * Related use cases for recommendations are ranked by TF-IDF cosine
+ * similarity over name, description and benefit, boosted by shared
+ * industries, departments and value chain step.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface SimilarityInput {
+  id: number;
+  useCase: string;
+  conceptDescription: string;
+}
+
+export interface SimilarityProfile {
+  id: number;
+  nameTrigrams: Set<string>;
+  nameTokens: Set<string>;
+  descriptionTokens: Set<string>;
+}
+
+export interface SimilarityMatch {
+  id: number;
+  // 0 to 1, weighted from the name and description scores
+  score: number;
+  nameScore: number;
+  descriptionScore: number;
+}
+
+export interface RelatedInput extends SimilarityInput {
+  benefit: string | null;
+  industries: string[];
+  departments: string[];
+  valueChainStep: string | null;
+}
+
+export type TaxonomyField = 'industries' | 'departments' | 'valueChainStep';
+
+export interface RelatedMatch {
+  id: number;
+  score: number;
+  sharedTaxonomy: TaxonomyField[];
+}
+
+export interface DuplicateCluster {
+  ids: number[];
+  // Pairs above the threshold that link the cluster, best first
+  pairs: Array<{ ids: [number, number]; score: number }>;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+// Score from which two use cases are reported as likely duplicates
+export const DUPLICATE_THRESHOLD = 0.6;
+
+// Name-only score from which a name being typed is flagged
+export const SIMILAR_NAME_THRESHOLD = 0.5;
+
+const NAME_WEIGHT = 0.7;
+const DESCRIPTION_WEIGHT = 0.3;
+
+// Added to the text score for each taxonomy two use cases share a value of
+const TAXONOMY_BOOST = 0.1;
+
+// The name says the most about a use case, so its words count twice
+const NAME_TERM_WEIGHT = 2;
+
+const TAXONOMY_FIELDS: TaxonomyField[] = ['industries', 'departments', 'valueChainStep'];
+
+// Words that say nothing about what a use case does
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'based', 'be', 'by', 'for', 'from', 'in', 'into', 'is', 'it',
+  'its', 'of', 'on', 'or', 'our', 'that', 'the', 'their', 'this', 'to', 'using', 'via', 'with',
+]);
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Lowercases and strips accents so "Café" and "cafe" compare equal
+ */
+const normalizeText = (text: string): string =>
+  text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+/**
+ * Splits text into meaningful words. A trailing plural "s" is dropped so
+ * "machine" and "machines" match.
+ */
+export function tokenize(text: string): string[] {
+  return normalizeText(text)
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word))
+    .map((word) => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+}
+
+/**
+ * Character trigrams of every word, padded so word starts and ends count
+ */
+function trigrams(text: string): Set<string> {
+  const result = new Set<string>();
+  for (const word of normalizeText(text).split(/[^a-z0-9]+/).filter(Boolean)) {
+    const padded = `  ${word} `;
+    for (let i = 0; i < padded.length - 2; i++) {
+      result.add(padded.substring(i, i + 3));
+    }
+  }
+  return result;
+}
+
+const countShared = (a: Set<string>, b: Set<string>): number => {
+  const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a];
+  let shared = 0;
+  smaller.forEach((item) => {
+    if (larger.has(item)) shared++;
+  });
+  return shared;
+};
+
+const jaccard = (a: Set<string>, b: Set<string>): number => {
+  const union = a.size + b.size - countShared(a, b);
+  return union === 0 ? 0 : countShared(a, b) / union;
+};
+
+// Share of the shorter set found in the longer one
+const overlap = (a: Set<string>, b: Set<string>): number => {
+  const smaller = Math.min(a.size, b.size);
+  return smaller === 0 ? 0 : countShared(a, b) / smaller;
+};
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+// =============================================================================
+// SCORING
+// =============================================================================
+
+export function buildProfile({ id, useCase, conceptDescription }: SimilarityInput): SimilarityProfile {
+  return {
+    id,
+    nameTrigrams: trigrams(useCase),
+    nameTokens: new Set(tokenize(useCase)),
+    descriptionTokens: new Set(tokenize(conceptDescription)),
+  };
+}
+
+/**
+ * Scores two use cases from 0 (unrelated) to 1 (same name and description).
+ * A one-word name contained in a longer one counts less than a full match.
+ */
+export function scoreSimilarity(a: SimilarityProfile, b: SimilarityProfile): SimilarityMatch {
+  const singleWord = Math.min(a.nameTokens.size, b.nameTokens.size) <= 1;
+  const wordOverlap = overlap(a.nameTokens, b.nameTokens) * (singleWord ? 0.8 : 1);
+  const nameScore = Math.max(jaccard(a.nameTrigrams, b.nameTrigrams), wordOverlap);
+  // Short descriptions such as the one a user is still typing count as unknown
+  const descriptionScore =
+    a.descriptionTokens.size > 0 && b.descriptionTokens.size > 0 ? jaccard(a.descriptionTokens, b.descriptionTokens) : null;
+
+  const score = descriptionScore === null
+    ? nameScore
+    : NAME_WEIGHT * nameScore + DESCRIPTION_WEIGHT * descriptionScore;
+
+  return {
+    id: b.id,
+    score: round(Math.min(score, 1)),
+    nameScore: round(nameScore),
+    descriptionScore: round(descriptionScore ?? 0),
+  };
+}
+
+/**
+ * Returns the candidates scoring at least the threshold against the target, best first
+ */
+export function findSimilar(
+  target: SimilarityProfile,
+  candidates: SimilarityProfile[],
+  threshold: number,
+  limit: number
+): SimilarityMatch[] {
+  return candidates
+    .filter((candidate) => candidate.id !== target.id)
+    .map((candidate) => scoreSimilarity(target, candidate))
+    .filter(({ score }) => score >= threshold)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * Groups use cases whose pairwise score reaches the threshold. Only pairs
+ * that share a name word are scored, which keeps large libraries fast.
+ * Clusters are ordered by their best pair.
+ */
+export function findDuplicateClusters(profiles: SimilarityProfile[], threshold: number): DuplicateCluster[] {
+  // Candidate pairs: profiles sharing at least one name word
+  const byToken = new Map<string, number[]>();
+  profiles.forEach((profile, index) => {
+    profile.nameTokens.forEach((token) => {
+      const indexes = byToken.get(token) ?? [];
+      indexes.push(index);
+      byToken.set(token, indexes);
+    });
+  });
+
+  const candidatePairs = new Set<string>();
+  byToken.forEach((indexes) => {
+    for (let i = 0; i < indexes.length; i++) {
+      for (let j = i + 1; j < indexes.length; j++) {
+        candidatePairs.add(`${indexes[i]}:${indexes[j]}`);
+      }
+    }
+  });
+
+  // Union-find over the matching pairs
+  const parents = profiles.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parents[index] !== index) {
+      index = parents[index] ?? index;
+    }
+    return index;
+  };
+
+  const pairs: Array<{ ids: [number, number]; score: number }> = [];
+  candidatePairs.forEach((key) => {
+    const [i, j] = key.split(':').map(Number) as [number, number];
+    const a = profiles[i];
+    const b = profiles[j];
+    if (!a || !b) return;
+
+    const { score } = scoreSimilarity(a, b);
+    if (score >= threshold) {
+      pairs.push({ ids: [a.id, b.id], score });
+      parents[find(j)] = find(i);
+    }
+  });
+
+  const clusters = new Map<number, DuplicateCluster>();
+  const indexById = new Map(profiles.map((profile, index) => [profile.id, index]));
+  for (const pair of pairs.sort((a, b) => b.score - a.score)) {
+    const root = find(indexById.get(pair.ids[0]) ?? 0);
+    const cluster = clusters.get(root) ?? { ids: [], pairs: [] };
+    cluster.pairs.push({ ids: pair.ids, score: pair.score });
+    pair.ids.forEach((id) => {
+      if (!cluster.ids.includes(id)) cluster.ids.push(id);
+    });
+    clusters.set(root, cluster);
+  }
+
+  return [...clusters.values()];
+}
+
+// =============================================================================
+// RECOMMENDATIONS
+// =============================================================================
+
+const termCounts = ({ useCase, conceptDescription, benefit }: RelatedInput): Map<string, number> => {
+  const counts = new Map<string, number>();
+  const add = (text: string, weight: number) => {
+    tokenize(text).forEach((term) => counts.set(term, (counts.get(term) ?? 0) + weight));
+  };
+  add(useCase, NAME_TERM_WEIGHT);
+  add(conceptDescription, 1);
+  add(benefit ?? '', 1);
+  return counts;
+};
+
+/**
+ * Ranks the library by relatedness to the target: cosine similarity of
+ * TF-IDF vectors (IDF computed over the given library), plus a boost if
+ * they share an industry, a department or the value chain step.
+ */
+export function findRelated(target: RelatedInput, library: RelatedInput[], limit: number): RelatedMatch[] {
+  const documents = library.filter(({ id }) => id !== target.id);
+  const counts = new Map(documents.map((document) => [document.id, termCounts(document)]));
+  const targetCounts = termCounts(target);
+
+  // Document frequency over the library and the target
+  const documentFrequency = new Map<string, number>();
+  [...counts.values(), targetCounts].forEach((terms) => {
+    terms.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1));
+  });
+  const documentCount = documents.length + 1;
+
+  const toVector = (terms: Map<string, number>): { weights: Map<string, number>; norm: number } => {
+    const weights = new Map<string, number>();
+    let sumOfSquares = 0;
+    terms.forEach((count, term) => {
+      const idf = Math.log((documentCount + 1) / ((documentFrequency.get(term) ?? 0) + 1)) + 1;
+      const weight = count * idf;
+      weights.set(term, weight);
+      sumOfSquares += weight * weight;
+    });
+    return { weights, norm: Math.sqrt(sumOfSquares) };
+  };
+
+  const targetVector = toVector(targetCounts);
+  const toKeys = (value: string | string[] | null): string[] =>
+    (Array.isArray(value) ? value : value !== null ? [value] : []).map((item) => item.trim().toLowerCase());
+  const sharesValue = (a: string | string[] | null, b: string | string[] | null): boolean => {
+    const keys = new Set(toKeys(a));
+    return toKeys(b).some((key) => keys.has(key));
+  };
+
+  return documents
+    .map((document) => {
+      const vector = toVector(counts.get(document.id) ?? new Map());
+      let dotProduct = 0;
+      targetVector.weights.forEach((weight, term) => {
+        dotProduct += weight * (vector.weights.get(term) ?? 0);
+      });
+      const cosine = targetVector.norm > 0 && vector.norm > 0 ? dotProduct / (targetVector.norm * vector.norm) : 0;
+      const sharedTaxonomy = TAXONOMY_FIELDS.filter((field) => sharesValue(target[field], document[field]));
+
+      return {
+        id: document.id,
+        score: round(cosine + TAXONOMY_BOOST * sharedTaxonomy.length),
+        sharedTaxonomy,
+      };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
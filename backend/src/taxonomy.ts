@@ -0,0 +1,621 @@
+/**
+ * Managed Taxonomy
+ *
+ * Industries, departments and value chain steps are managed as taxonomy
+ * terms with a canonical name, aliases for variant spellings and a sort
+ * order (for value chain steps, the position in the chain). A use case is
+ * linked to any number of industry and department terms. Only existing terms
+ * can be linked; imports and the link migration may create missing ones when
+ * asked to. The value chain step is a single value kept as the canonical name
+ * in the valueChainStep column.
+ * Variant spellings can be merged into one value, which is recorded in the
+ * taxonomy_merges audit log. Shared by the API server, the importer and the
+ * taxonomy migration script.
+ */
+
+import { Prisma, TaxonomyMerge, TaxonomyTerm, TaxonomyType } from '@prisma/client';
+import { recordRevision, UseCaseSnapshot, useCaseTermsInclude } from './revisions';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type TaxonomyField = 'industries' | 'departments' | 'valueChainStep';
+
+// Taxonomies whose terms are linked to use cases, several per use case
+export type LinkedTaxonomyType = Exclude<TaxonomyType, 'VALUE_CHAIN_STEP'>;
+
+/**
+ * Maps a value or one of its aliases to the canonical name.
+ * Unknown values are returned trimmed, empty ones as null.
+ */
+export type TaxonomyResolver = (type: TaxonomyType, value: string | null | undefined) => string | null;
+
+export interface TaxonomyValueUsage {
+  type: TaxonomyType;
+  value: string;
+  // Use cases holding exactly this spelling
+  count: number;
+  // Term the value resolves to, null if it is not managed
+  term: { id: number; name: string } | null;
+}
+
+export interface TaxonomyMergeResult {
+  term: TaxonomyTerm;
+  merge: TaxonomyMerge;
+}
+
+export type TermWithUseCaseCount = TaxonomyTerm & { useCaseCount: number };
+
+// Use case columns of a snapshot and the terms to link for its industries and departments
+export interface ResolvedSnapshot {
+  columns: Omit<UseCaseSnapshot, 'industries' | 'departments' | 'tags'>;
+  industries: Array<{ id: number }>;
+  departments: Array<{ id: number }>;
+  tags: Array<{ id: number }>;
+}
+
+export interface TaxonomyMigrationResult {
+  type: TaxonomyType;
+  // Terms created for values that matched no existing term
+  created: string[];
+  // Use cases whose value was rewritten to the canonical spelling
+  rewritten: number;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const TAXONOMY_TYPES = Object.values(TaxonomyType);
+
+// Use case field holding the values of each taxonomy
+export const TAXONOMY_FIELDS: Record<TaxonomyType, TaxonomyField> = {
+  INDUSTRY: 'industries',
+  DEPARTMENT: 'departments',
+  VALUE_CHAIN_STEP: 'valueChainStep',
+};
+
+// Relation from a term to its use cases, per linked taxonomy
+const TERM_USE_CASE_RELATIONS: Record<LinkedTaxonomyType, 'industryUseCases' | 'departmentUseCases'> = {
+  INDUSTRY: 'industryUseCases',
+  DEPARTMENT: 'departmentUseCases',
+};
+
+// Separates several industries or departments in one import or export cell, e.g. "Retail; Banking"
+export const TAXONOMY_VALUE_SEPARATOR = ';';
+
+// How a value of each linked taxonomy is named in messages
+const LINKED_TAXONOMY_LABELS: Record<LinkedTaxonomyType, string> = {
+  INDUSTRY: 'industry',
+  DEPARTMENT: 'department',
+};
+
+// =============================================================================
+// ERRORS
+// =============================================================================
+
+/**
+ * Industries or departments that match no term where new terms may not be
+ * created. Lists the names that are allowed instead.
+ */
+export class UnknownTaxonomyValueError extends Error {
+  public readonly type: LinkedTaxonomyType;
+  public readonly values: string[];
+  public readonly allowed: string[];
+
+  constructor(type: LinkedTaxonomyType, values: string[], allowed: string[]) {
+    super(
+      `Unknown ${LINKED_TAXONOMY_LABELS[type]} ${values.map((value) => `"${value}"`).join(', ')}. ` +
+        `Allowed: ${allowed.join(', ') || 'none yet'}`
+    );
+    this.type = type;
+    this.values = values;
+    this.allowed = allowed;
+    Object.setPrototypeOf(this, UnknownTaxonomyValueError.prototype);
+  }
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+export const isLinkedTaxonomy = (type: TaxonomyType): type is LinkedTaxonomyType => type !== 'VALUE_CHAIN_STEP';
+
+/**
+ * Compares taxonomy values ignoring case and repeated whitespace,
+ * so "Retail", "retail " and "RETAIL" are the same value
+ */
+export const normalizeTaxonomyKey = (value: string): string => value.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Splits a cell such as "Retail; Banking" into its values
+ */
+export const splitTaxonomyValues = (value: string | null | undefined): string[] =>
+  (value ?? '')
+    .split(TAXONOMY_VALUE_SEPARATOR)
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0);
+
+/**
+ * Trims the aliases and drops blank and repeated ones and those that only
+ * restate the name
+ */
+export function cleanAliases(name: string, aliases: string[]): string[] {
+  const seen = new Set([normalizeTaxonomyKey(name)]);
+  return aliases
+    .map((alias) => alias.trim().replace(/\s+/g, ' '))
+    .filter((alias) => {
+      const key = normalizeTaxonomyKey(alias);
+      if (!alias || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * Indexes the names and aliases of the given terms by normalized key
+ */
+export function indexTaxonomyTerms(terms: TaxonomyTerm[]): Map<string, TaxonomyTerm> {
+  const byKey = new Map<string, TaxonomyTerm>();
+  terms.forEach((term) => {
+    [term.name, ...term.aliases].forEach((value) => byKey.set(normalizeTaxonomyKey(value), term));
+  });
+  return byKey;
+}
+
+/**
+ * Loads all terms once and returns a resolver for values of any taxonomy
+ */
+export async function loadTaxonomyResolver(client: Prisma.TransactionClient): Promise<TaxonomyResolver> {
+  const terms = await client.taxonomyTerm.findMany();
+  const indexes = new Map(
+    TAXONOMY_TYPES.map((type) => [type, indexTaxonomyTerms(terms.filter((term) => term.type === type))])
+  );
+
+  return (type, value) => {
+    const trimmed = value?.trim();
+    if (!trimmed) {
+      return null;
+    }
+    return indexes.get(type)?.get(normalizeTaxonomyKey(trimmed))?.name ?? trimmed;
+  };
+}
+
+/**
+ * Resolves several values to their canonical names, dropping empty ones and
+ * values that resolve to a name already listed
+ */
+export function resolveTaxonomyValues(
+  resolveTaxonomy: TaxonomyResolver,
+  type: TaxonomyType,
+  values: string[]
+): string[] {
+  const names = new Map<string, string>();
+  values.forEach((value) => {
+    const name = resolveTaxonomy(type, value);
+    if (name && !names.has(normalizeTaxonomyKey(name))) {
+      names.set(normalizeTaxonomyKey(name), name);
+    }
+  });
+  return [...names.values()];
+}
+
+/**
+ * Loads the industry and department terms once and returns a function that
+ * lists the given values matching neither a name nor an alias
+ */
+export async function loadUnknownTermFinder(
+  client: Prisma.TransactionClient
+): Promise<(type: LinkedTaxonomyType, values: string[]) => string[]> {
+  const terms = await client.taxonomyTerm.findMany({ where: { type: { in: ['INDUSTRY', 'DEPARTMENT'] } } });
+  const indexes = new Map(
+    (['INDUSTRY', 'DEPARTMENT'] as const).map((type) => [
+      type,
+      indexTaxonomyTerms(terms.filter((term) => term.type === type)),
+    ])
+  );
+
+  return (type, values) =>
+    values.filter((value) => value.trim() && !indexes.get(type)?.has(normalizeTaxonomyKey(value)));
+}
+
+/**
+ * Finds the terms the given values or their aliases belong to and returns
+ * their IDs for linking to a use case. Unknown values are rejected with an
+ * UnknownTaxonomyValueError unless createMissing is set, which adds them as
+ * terms at the end of the order (imports the editor opted in for).
+ */
+export async function resolveTaxonomyTermIds(
+  client: Prisma.TransactionClient,
+  type: LinkedTaxonomyType,
+  values: string[],
+  createMissing = false
+): Promise<Array<{ id: number }>> {
+  const terms = await client.taxonomyTerm.findMany({
+    where: { type },
+    orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+  });
+  const byKey = indexTaxonomyTerms(terms);
+
+  const names = values.map((value) => value.trim().replace(/\s+/g, ' ')).filter((name) => name.length > 0);
+  const unknown = names.filter((name) => !byKey.has(normalizeTaxonomyKey(name)));
+  if (unknown.length > 0 && !createMissing) {
+    throw new UnknownTaxonomyValueError(type, unknown, terms.map(({ name }) => name));
+  }
+
+  let nextSortOrder = Math.max(0, ...terms.map(({ sortOrder }) => sortOrder + 1));
+  const ids = new Set<number>();
+  for (const name of names) {
+    const key = normalizeTaxonomyKey(name);
+    let term = byKey.get(key);
+    if (!term) {
+      term = await client.taxonomyTerm.create({ data: { type, name, sortOrder: nextSortOrder++ } });
+      byKey.set(key, term);
+    }
+    ids.add(term.id);
+  }
+  return [...ids].map((id) => ({ id }));
+}
+
+/**
+ * Finds the tags with the given names (ignoring case) and creates the missing
+ * ones. Returns their IDs for connecting to a use case.
+ */
+export async function resolveTagIds(client: Prisma.TransactionClient, names: string[]): Promise<Array<{ id: number }>> {
+  const wanted = new Map<string, string>();
+  names.forEach((name) => {
+    const cleaned = name.trim().replace(/\s+/g, ' ');
+    if (cleaned && !wanted.has(cleaned.toLowerCase())) wanted.set(cleaned.toLowerCase(), cleaned);
+  });
+  if (wanted.size === 0) {
+    return [];
+  }
+
+  const existing = await client.tag.findMany({
+    where: { OR: [...wanted.values()].map((name) => ({ name: { equals: name, mode: 'insensitive' } })) },
+  });
+  const byKey = new Map(existing.map((tag) => [tag.name.toLowerCase(), tag]));
+
+  const ids: Array<{ id: number }> = [];
+  for (const [key, name] of wanted) {
+    let tag = byKey.get(key);
+    if (!tag) {
+      // A concurrent save may create the same tag in another case. The unique
+      // index on lower(name) turns the second insert into a no-op, without
+      // aborting the transaction as a failed create would.
+      await client.$executeRaw`INSERT INTO tags (name) VALUES (${name}) ON CONFLICT DO NOTHING`;
+      tag = await client.tag.findFirstOrThrow({
+        where: { name: { equals: name, mode: 'insensitive' } },
+        orderBy: { id: 'asc' },
+      });
+    }
+    ids.push({ id: tag.id });
+  }
+  return ids;
+}
+
+/**
+ * Splits a snapshot into its use case columns and the terms of its
+ * industries, departments and tags. New industries and departments are
+ * rejected unless createMissing is set (see resolveTaxonomyTermIds), new
+ * tags are always created.
+ */
+export async function resolveSnapshotTerms(
+  client: Prisma.TransactionClient,
+  { industries, departments, tags, ...columns }: UseCaseSnapshot,
+  createMissing = false
+): Promise<ResolvedSnapshot> {
+  return {
+    columns,
+    industries: await resolveTaxonomyTermIds(client, 'INDUSTRY', industries, createMissing),
+    departments: await resolveTaxonomyTermIds(client, 'DEPARTMENT', departments, createMissing),
+    tags: await resolveTagIds(client, tags),
+  };
+}
+
+/**
+ * Lists industry and department terms in their order with the number of
+ * linked use cases that match the given filter
+ */
+export async function countLinkedUseCases(
+  client: Prisma.TransactionClient,
+  where: Prisma.TaxonomyTermWhereInput,
+  useCases: Prisma.UseCaseWhereInput = {}
+): Promise<TermWithUseCaseCount[]> {
+  const terms = await client.taxonomyTerm.findMany({
+    where,
+    orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+    include: {
+      _count: {
+        select: { industryUseCases: { where: useCases }, departmentUseCases: { where: useCases } },
+      },
+    },
+  });
+
+  // A term is only linked through the relation of its own type
+  return terms.map(({ _count, ...term }) => ({
+    ...term,
+    useCaseCount: _count.industryUseCases + _count.departmentUseCases,
+  }));
+}
+
+/**
+ * Records an UPDATE revision for each given use case, e.g. after the names
+ * of its linked terms changed. Returns the number of use cases.
+ */
+async function recordTermRevisions(
+  client: Prisma.TransactionClient,
+  ids: number[],
+  actor: string | null,
+  comment: string
+): Promise<number> {
+  const useCases = await client.useCase.findMany({
+    where: { id: { in: ids } },
+    include: useCaseTermsInclude,
+  });
+  for (const useCase of useCases) {
+    await recordRevision(client, useCase, 'UPDATE', actor, comment);
+  }
+  return useCases.length;
+}
+
+/**
+ * Rewrites the use cases holding one of the given value chain steps to the
+ * new value and records an UPDATE revision for each. Returns the number of
+ * use cases changed.
+ */
+export async function rewriteValueChainSteps(
+  client: Prisma.TransactionClient,
+  from: string[],
+  to: string | null,
+  actor: string | null,
+  comment: string
+): Promise<number> {
+  const values = from.filter((value) => value !== to);
+  if (values.length === 0) {
+    return 0;
+  }
+
+  const affected = await client.useCase.findMany({
+    where: { valueChainStep: { in: values } },
+    select: { id: true },
+  });
+
+  for (const { id } of affected) {
+    const updated = await client.useCase.update({
+      where: { id },
+      data: { valueChainStep: to },
+      include: useCaseTermsInclude,
+    });
+    await recordRevision(client, updated, 'UPDATE', actor, comment);
+  }
+
+  return affected.length;
+}
+
+/**
+ * Brings the use cases of a created or changed term up to date. Value chain
+ * steps holding a spelling or alias of the term (or one of the given previous
+ * names) are rewritten to its canonical name. Use cases linked to a renamed
+ * industry or department get a revision with the new name. Returns the number
+ * of use cases changed.
+ */
+export async function applyTaxonomyTerm(
+  client: Prisma.TransactionClient,
+  term: TaxonomyTerm,
+  actor: string | null,
+  comment: string,
+  previousNames: string[] = []
+): Promise<number> {
+  if (isLinkedTaxonomy(term.type)) {
+    if (previousNames.every((name) => name === term.name)) {
+      return 0;
+    }
+    const linked = await client.useCase.findMany({
+      where: { [TAXONOMY_FIELDS[term.type]]: { some: { id: term.id } } },
+      select: { id: true },
+    });
+    return recordTermRevisions(client, linked.map(({ id }) => id), actor, comment);
+  }
+
+  const keys = new Set([term.name, ...term.aliases, ...previousNames].map(normalizeTaxonomyKey));
+
+  const groups = await client.useCase.groupBy({
+    by: ['valueChainStep'],
+    where: { valueChainStep: { not: null } },
+  });
+  const matching = groups.flatMap(({ valueChainStep }) =>
+    valueChainStep && keys.has(normalizeTaxonomyKey(valueChainStep)) ? [valueChainStep] : []
+  );
+
+  return rewriteValueChainSteps(client, matching, term.name, actor, comment);
+}
+
+// =============================================================================
+// NORMALIZATION
+// =============================================================================
+
+/**
+ * Lists every distinct value of a taxonomy with its usage count. For
+ * industries and departments these are the terms. For value chain steps
+ * these are the raw values, with spellings of the same value next to each other.
+ */
+export async function listTaxonomyValues(
+  client: Prisma.TransactionClient,
+  type: TaxonomyType
+): Promise<TaxonomyValueUsage[]> {
+  if (isLinkedTaxonomy(type)) {
+    const terms = await countLinkedUseCases(client, { type });
+    return terms
+      .map(({ id, name, useCaseCount }) => ({ type, value: name, count: useCaseCount, term: { id, name } }))
+      .sort((a, b) => normalizeTaxonomyKey(a.value).localeCompare(normalizeTaxonomyKey(b.value)));
+  }
+
+  const [terms, groups] = await Promise.all([
+    client.taxonomyTerm.findMany({ where: { type } }),
+    client.useCase.groupBy({
+      by: ['valueChainStep'],
+      where: { valueChainStep: { not: null } },
+      _count: { _all: true },
+    }),
+  ]);
+  const byKey = indexTaxonomyTerms(terms);
+
+  return groups
+    .flatMap(({ valueChainStep: value, _count }) => {
+      if (value === null) return [];
+      const term = byKey.get(normalizeTaxonomyKey(value));
+      return [{ type, value, count: _count._all, term: term ? { id: term.id, name: term.name } : null }];
+    })
+    .sort((a, b) => normalizeTaxonomyKey(a.value).localeCompare(normalizeTaxonomyKey(b.value)) || b.count - a.count);
+}
+
+/**
+ * Merges variant values into one canonical value. The target term is the one
+ * `into` resolves to, or a new term named `into`. The merged values become its
+ * aliases and terms they belonged to are folded into it. Use cases linked to
+ * a folded industry or department are linked to the target instead, value
+ * chain steps holding one of the values are rewritten. Run inside a transaction.
+ */
+export async function mergeTaxonomyValues(
+  client: Prisma.TransactionClient,
+  type: TaxonomyType,
+  values: string[],
+  into: string,
+  actor: string | null
+): Promise<TaxonomyMergeResult> {
+  const terms = await client.taxonomyTerm.findMany({ where: { type } });
+  const byKey = indexTaxonomyTerms(terms);
+  const existing = byKey.get(normalizeTaxonomyKey(into));
+  const name = existing?.name ?? into.trim().replace(/\s+/g, ' ');
+
+  // Terms of the merged values other than the target
+  const absorbed = [
+    ...new Map(
+      values.flatMap((value) => {
+        const owner = byKey.get(normalizeTaxonomyKey(value));
+        return owner && owner.id !== existing?.id ? [[owner.id, owner] as const] : [];
+      })
+    ).values(),
+  ];
+  const absorbedIds = absorbed.map(({ id }) => id);
+  const aliases = cleanAliases(name, [
+    ...(existing?.aliases ?? []),
+    ...values,
+    ...absorbed.flatMap((term) => [term.name, ...term.aliases]),
+  ]);
+
+  // Deleting the absorbed terms drops their links, so the use cases are read first
+  const relinked = isLinkedTaxonomy(type) && absorbedIds.length > 0
+    ? await client.useCase.findMany({
+        where: { [TAXONOMY_FIELDS[type]]: { some: { id: { in: absorbedIds } } } },
+        select: { id: true },
+      })
+    : [];
+
+  if (absorbed.length > 0) {
+    await client.taxonomyTerm.deleteMany({ where: { id: { in: absorbedIds } } });
+  }
+
+  const term = existing
+    ? await client.taxonomyTerm.update({ where: { id: existing.id }, data: { aliases } })
+    : await client.taxonomyTerm.create({
+        data: {
+          type,
+          name,
+          aliases,
+          // A new term takes the place of the first term it absorbs
+          sortOrder: absorbed.length > 0
+            ? Math.min(...absorbed.map(({ sortOrder }) => sortOrder))
+            : Math.max(0, ...terms.map(({ sortOrder }) => sortOrder + 1)),
+        },
+      });
+
+  const fromValues = [...new Set(values)].filter((value) => value !== term.name);
+  const comment = `Taxonomy merge of ${fromValues.map((value) => `"${value}"`).join(', ')} into "${term.name}"`;
+  let useCaseCount: number;
+
+  if (isLinkedTaxonomy(type)) {
+    const ids = relinked.map(({ id }) => id);
+    if (ids.length > 0) {
+      await client.taxonomyTerm.update({
+        where: { id: term.id },
+        data: { [TERM_USE_CASE_RELATIONS[type]]: { connect: relinked } },
+      });
+    }
+    useCaseCount = await recordTermRevisions(client, ids, actor, comment);
+  } else {
+    useCaseCount = await applyTaxonomyTerm(client, term, actor, comment);
+  }
+
+  const merge = await client.taxonomyMerge.create({
+    data: { type, fromValues, toValue: term.name, useCaseCount, mergedBy: actor },
+  });
+
+  return { term, merge };
+}
+
+// =============================================================================
+// MIGRATION
+// =============================================================================
+
+/**
+ * Maps the free-text value chain steps of existing use cases onto taxonomy
+ * terms. Industries and departments are always linked terms and need no
+ * migration. Values that differ only in case or whitespace are grouped; a
+ * group matching a term name or alias is rewritten to that term, any other
+ * group becomes a new term named after its most used spelling and added at
+ * the end of the order. Safe to run again, values that already match a term
+ * are left as they are.
+ */
+export async function migrateValueChainSteps(
+  client: Prisma.TransactionClient,
+  actor: string | null
+): Promise<TaxonomyMigrationResult> {
+  const type = 'VALUE_CHAIN_STEP';
+  const terms = await client.taxonomyTerm.findMany({ where: { type } });
+  const byKey = indexTaxonomyTerms(terms);
+
+  const groups = await client.useCase.groupBy({
+    by: ['valueChainStep'],
+    where: { valueChainStep: { not: null } },
+    _count: { _all: true },
+  });
+
+  // Raw spellings per normalized value, most used first
+  const variants = new Map<string, Array<{ value: string; count: number }>>();
+  groups.forEach(({ valueChainStep: value, _count }) => {
+    if (!value?.trim()) return;
+    const key = normalizeTaxonomyKey(value);
+    variants.set(key, [...(variants.get(key) ?? []), { value, count: _count._all }]);
+  });
+
+  let nextSortOrder = Math.max(0, ...terms.map(({ sortOrder }) => sortOrder + 1));
+  const result: TaxonomyMigrationResult = { type, created: [], rewritten: 0 };
+  const sortedKeys = [...variants.keys()].sort((a, b) => a.localeCompare(b));
+
+  for (const key of sortedKeys) {
+    const spellings = (variants.get(key) ?? []).sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+    let term = byKey.get(key);
+
+    if (!term) {
+      const name = (spellings[0]?.value ?? key).trim().replace(/\s+/g, ' ');
+      term = await client.taxonomyTerm.create({
+        data: { type, name, sortOrder: nextSortOrder++ },
+      });
+      byKey.set(key, term);
+      result.created.push(name);
+    }
+
+    result.rewritten += await rewriteValueChainSteps(
+      client,
+      spellings.map(({ value }) => value),
+      term.name,
+      actor,
+      'Taxonomy migration'
+    );
+  }
+
+  return result;
+}
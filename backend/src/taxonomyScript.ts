@@ -0,0 +1,72 @@
+/**
+ * Taxonomy Migration Script for Use Case Library
+ *
+ * Maps the free-text value chain steps of existing use cases onto managed
+ * taxonomy terms (see taxonomy.ts):
+ * - Values that differ only in case or whitespace become one term, named
+ *   after the most used spelling
+ * - Values matching an existing term name or alias are rewritten to the
+ *   canonical name, with an UPDATE revision per changed use case
+ * - New terms are added at the end of the order; value chain steps can be
+ *   put in sequence afterwards via PUT /api/taxonomy/order
+ *
+ * Industries and departments are linked terms and need no mapping. Databases
+ * from before they were are converted by prisma/sql/taxonomy_links.sql.
+ *
+ * Runs in one transaction and can be run again after imports.
+ *
+ * Usage: npm run taxonomy:migrate
+ */
+
+import { PrismaClient } from '@prisma/client';
+import dotenv from 'dotenv';
+import { migrateValueChainSteps, TAXONOMY_FIELDS, TaxonomyMigrationResult } from './taxonomy';
+
+// Load environment variables
+dotenv.config();
+
+// Initialize Prisma Client
+const prisma = new PrismaClient({
+  log: ['error', 'warn'],
+});
+
+// Recorded as the author of revisions created by this script
+const MIGRATION_ACTOR = 'taxonomy-migration';
+
+// =============================================================================
+// MAIN MIGRATION FUNCTION
+// =============================================================================
+
+async function migrateTaxonomy(): Promise<void> {
+  console.log('🏷️  Mapping use case values onto the managed taxonomy...\n');
+
+  let result: TaxonomyMigrationResult;
+  try {
+    result = await prisma.$transaction(
+      (tx) => migrateValueChainSteps(tx, MIGRATION_ACTOR),
+      { timeout: 120_000 }
+    );
+  } catch (error) {
+    console.error('❌ FATAL ERROR during migration:');
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+
+  const { type, created, rewritten } = result;
+  console.log(`${TAXONOMY_FIELDS[type]}:`);
+  console.log(`  ➕ New terms: ${created.length}${created.length > 0 ? ` (${created.join(', ')})` : ''}`);
+  console.log(`  ✏️  Use cases rewritten: ${rewritten}`);
+
+  console.log('\n✅ Taxonomy migration completed successfully!');
+}
+
+// =============================================================================
+// SCRIPT EXECUTION
+// =============================================================================
+
+migrateTaxonomy().catch((error) => {
+  console.error('Unhandled error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,20 @@
+/**
+ * Express Request Augmentation
+ *
+ * The authentication middleware in server.ts attaches the signed-in user
+ * to the request.
+ */
+
+import { UserRole } from '@prisma/client';
+
+export interface AuthUser {
+  id: number;
+  username: string;
+  role: UserRole;
+}
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    user?: AuthUser;
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * Use Case Field Rules
+ *
+ * Length limits and URL format shared by the API validation in server.ts
+ * and the import script, so both accept the same data.
+ */
+
+import { UseCaseSnapshot } from './revisions';
+
+export const URL_PATTERN = /^(https?:\/\/)?([\da-z.-]+)\.([a-z.]{2,6})([/\w .-]*)*\/?$/i;
+
+// URLs are checked against URL_PATTERN instead of a length limit, tags by
+// the API validation. Industries and departments are limited per value.
+export const FIELD_LENGTH_LIMITS: Record<Exclude<keyof UseCaseSnapshot, 'url' | 'tags'>, { min: number; max: number }> = {
+  useCase: { min: 3, max: 500 },
+  conceptDescription: { min: 10, max: 10000 },
+  concreteImplementation: { min: 0, max: 10000 },
+  benefit: { min: 0, max: 5000 },
+  industries: { min: 0, max: 200 },
+  departments: { min: 0, max: 200 },
+  valueChainStep: { min: 0, max: 200 },
+};
+
+// Industries and departments a use case can be linked to, each
+export const MAX_TAXONOMY_VALUES = 10;
@@ -1,26 +1,138 @@
-import { useState, useEffect, useCallback, FormEvent, ChangeEvent } from 'react';
-import { BrowserRouter, Routes, Route, Link, useNavigate } from 'react-router-dom';
+import {
+  useState,
+  useEffect,
+  useCallback,
+  useMemo,
+  createContext,
+  useContext,
+  FormEvent,
+  ChangeEvent,
+  KeyboardEvent,
+} from 'react';
+import {
+  BrowserRouter,
+  Routes,
+  Route,
+  Link,
+  Navigate,
+  useLocation,
+  useNavigate,
+  useParams,
+  useSearchParams,
+} from 'react-router-dom';
 
 // =============================================================================
 // TYPES & INTERFACES
 // =============================================================================
 
+type UserRole = 'VIEWER' | 'CONTRIBUTOR' | 'EDITOR' | 'ADMIN';
+
+interface AuthUser {
+  id: number;
+  username: string;
+  role: UserRole;
+}
+
+interface AuthContextValue {
+  user: AuthUser | null;
+  login: (username: string, password: string) => Promise<void>;
+  logout: () => void;
+  hasRole: (role: UserRole) => boolean;
+  // Whether the user may edit the use case and move it through the workflow
+  canEdit: (useCase: Pick<UseCase, 'status' | 'createdBy'>) => boolean;
+  authFetch: (url: string, init?: RequestInit) => Promise<Response>;
+}
+
+type UseCaseStatus = 'DRAFT' | 'IN_REVIEW' | 'PUBLISHED' | 'ARCHIVED';
+
+type WorkflowAction = 'submit' | 'approve' | 'reject' | 'archive';
+
+interface Tag {
+  id: number;
+  name: string;
+}
+
+interface TagCount extends Tag {
+  count: number;
+}
+
+// Industry or department term linked to a use case
+interface LinkedTerm {
+  id: number;
+  name: string;
+}
+
 interface UseCase {
   id: number;
   useCase: string;
   conceptDescription: string;
   concreteImplementation: string | null;
   benefit: string | null;
-  industry: string | null;
-  department: string | null;
+  industries: LinkedTerm[];
+  departments: LinkedTerm[];
   valueChainStep: string | null;
   url: string | null;
+  status: UseCaseStatus;
+  reviewComment: string | null;
+  // Username of the contributor who submitted it
+  createdBy: string | null;
+  viewCount: number;
+  // Set when this use case was merged into another one as a duplicate
+  mergedIntoId: number | null;
+  tags: Tag[];
   createdAt: string;
   updatedAt: string;
 }
 
+type UseCaseSnapshot = Pick<
+  UseCase,
+  | 'useCase'
+  | 'conceptDescription'
+  | 'concreteImplementation'
+  | 'benefit'
+  | 'valueChainStep'
+  | 'url'
+> & {
+  industries: string[];
+  departments: string[];
+  tags: string[];
+};
+
+// Fields read from an import file, which carries no tags
+type ImportField = Exclude<keyof UseCaseSnapshot, 'tags'>;
+
+interface UseCaseRevision {
+  id: number;
+  useCaseId: number;
+  action: 'CREATE' | 'UPDATE' | 'DELETE' | 'RESTORE' | 'SUBMIT' | 'APPROVE' | 'REJECT' | 'ARCHIVE';
+  snapshot: UseCaseSnapshot;
+  changedBy: string | null;
+  comment: string | null;
+  createdAt: string;
+}
+
+interface DiffSegment {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+interface SearchMatch {
+  rank: number;
+  title: HighlightSegment[];
+  snippet: HighlightSegment[];
+}
+
+interface UseCaseListItem extends UseCase {
+  searchMatch: SearchMatch | null;
+}
+
 interface PaginatedResponse {
-  data: UseCase[];
+  data: UseCaseListItem[];
   pagination: {
     page: number;
     limit: number;
@@ -30,17 +142,149 @@ interface PaginatedResponse {
     hasPrev: boolean;
   };
   filters: {
-    industry: string | null;
-    valueChainStep: string | null;
-    department: string | null;
+    industry: FacetSelection;
+    valueChainStep: FacetSelection;
+    department: FacetSelection;
+    tags: string[];
     search: string | null;
+    status: UseCaseStatus | 'all';
   };
+  sort: SortOption;
+}
+
+interface FacetOption {
+  value: string;
+  count: number;
 }
 
 interface FilterOptions {
-  industries: string[];
-  valueChainSteps: string[];
-  departments: string[];
+  industries: FacetOption[];
+  valueChainSteps: FacetOption[];
+  departments: FacetOption[];
+}
+
+type FacetKey = 'industry' | 'valueChainStep' | 'department';
+
+interface FacetSelection {
+  include: string[];
+  exclude: string[];
+}
+
+type FacetFilters = Record<FacetKey, FacetSelection>;
+
+type SortOption = 'newest' | 'oldest' | 'title' | 'updated' | 'relevance' | 'views';
+
+type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+// Sync is only available in the import script
+type ImportMode = 'insert' | 'upsert';
+
+type ImportRowAction = 'insert' | 'update' | 'unchanged' | 'duplicate' | 'skip';
+
+interface SimilarUseCase {
+  id: number;
+  useCase: string;
+  status: UseCaseStatus;
+  industries: LinkedTerm[];
+  score: number;
+}
+
+type TaxonomyField = 'industries' | 'departments' | 'valueChainStep';
+
+interface RelatedUseCase {
+  id: number;
+  useCase: string;
+  conceptDescription: string;
+  industries: LinkedTerm[];
+  departments: LinkedTerm[];
+  valueChainStep: string | null;
+  score: number;
+  sharedTaxonomy: TaxonomyField[];
+}
+
+type TaxonomyType = 'INDUSTRY' | 'DEPARTMENT' | 'VALUE_CHAIN_STEP';
+
+interface TaxonomyValue {
+  type: TaxonomyType;
+  value: string;
+  count: number;
+  term: { id: number; name: string } | null;
+}
+
+interface TaxonomyMerge {
+  id: number;
+  type: TaxonomyType;
+  fromValues: string[];
+  toValue: string;
+  useCaseCount: number;
+  mergedBy: string | null;
+  createdAt: string;
+}
+
+interface ImportIssue {
+  row: number;
+  severity: 'error' | 'warning';
+  field: string | null;
+  useCase: string | null;
+  message: string;
+}
+
+interface ImportRow {
+  rowNumber: number;
+  action: ImportRowAction;
+  useCase: string | null;
+  existingId: number | null;
+  changedFields: Array<keyof UseCaseSnapshot>;
+  issues: ImportIssue[];
+}
+
+interface ImportStats {
+  totalRows: number;
+  inserted: number;
+  updated: number;
+  unchanged: number;
+  archived: number;
+  skipped: number;
+  duplicates: number;
+  errors: number;
+}
+
+interface ImportPreview {
+  id: string;
+  fileName: string;
+  mode: ImportMode;
+  headers: string[];
+  mapping: Record<ImportField, { header: string }>;
+  summary: ImportStats;
+  rows: ImportRow[];
+  expiresAt: string;
+}
+
+interface ImportResult {
+  id: string;
+  batchId: number;
+  fileName: string;
+  stats: ImportStats;
+  issues: ImportIssue[];
+}
+
+interface ImportBatch {
+  id: number;
+  fileName: string;
+  mode: string;
+  createdBy: string | null;
+  // Empty while an import script run is still in progress
+  stats: Partial<ImportStats>;
+  rolledBackAt: string | null;
+  rolledBackBy: string | null;
+  createdAt: string;
+}
+
+interface RollbackResult {
+  deleted: number;
+  reverted: number;
+  republished: number;
+  skipped: Array<{ useCaseId: number; useCase: string | null; reason: string }>;
 }
 
 interface FormData {
@@ -48,10 +292,11 @@ interface FormData {
   conceptDescription: string;
   concreteImplementation: string;
   benefit: string;
-  industry: string;
-  department: string;
+  industries: string[];
+  departments: string[];
   valueChainStep: string;
   url: string;
+  tags: string[];
 }
 
 interface FormErrors {
@@ -67,6 +312,298 @@ interface FormErrors {
 
 const API_BASE_URL = '/api';
 
+const fetchUseCaseById = async (
+  id: string,
+  fetcher: (url: string) => Promise<Response> = fetch
+): Promise<UseCase> => {
+  const response = await fetcher(`${API_BASE_URL}/use-cases/${id}`);
+
+  if (!response.ok) {
+    const errorData = await response.json() as { error?: string };
+    throw new Error(errorData.error ?? `Failed to load use case: ${response.statusText}`);
+  }
+
+  const data = (await response.json()) as { data: UseCase };
+  return data.data;
+};
+
+// =============================================================================
+// AUTHENTICATION
+// =============================================================================
+
+const AUTH_STORAGE_KEY = 'use-case-library-auth';
+
+// Roles are ranked, a higher role includes all permissions of the lower ones
+const ROLE_RANK: Record<UserRole, number> = {
+  VIEWER: 0,
+  CONTRIBUTOR: 1,
+  EDITOR: 2,
+  ADMIN: 3,
+};
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+const readStoredSession = (): { token: string; user: AuthUser } | null => {
+  try {
+    const stored = localStorage.getItem(AUTH_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as { token: string; user: AuthUser }) : null;
+  } catch {
+    return null;
+  }
+};
+
+const AuthProvider = ({ children }: { children: React.ReactNode }) => {
+  const [session, setSession] = useState(readStoredSession);
+
+  const logout = useCallback(() => {
+    localStorage.removeItem(AUTH_STORAGE_KEY);
+    setSession(null);
+  }, []);
+
+  const login = useCallback(async (username: string, password: string) => {
+    const response = await fetch(`${API_BASE_URL}/auth/login`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username, password }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json() as { error?: string };
+      throw new Error(errorData.error ?? 'Login failed');
+    }
+
+    const data = (await response.json()) as { data: { token: string; user: AuthUser } };
+    localStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify(data.data));
+    setSession(data.data);
+  }, []);
+
+  // Attaches the session token and drops the session once the API rejects it
+  const token = session?.token ?? null;
+  const authFetch = useCallback(
+    async (url: string, init: RequestInit = {}) => {
+      const headers = new Headers(init.headers);
+      if (token) {
+        headers.set('Authorization', `Bearer ${token}`);
+      }
+
+      const response = await fetch(url, { ...init, headers });
+      if (response.status === 401 && token) {
+        logout();
+      }
+      return response;
+    },
+    [token, logout]
+  );
+
+  // Re-validate a stored session on startup so role changes are picked up
+  useEffect(() => {
+    const storedToken = readStoredSession()?.token;
+    if (!storedToken) {
+      return;
+    }
+
+    fetch(`${API_BASE_URL}/auth/me`, { headers: { Authorization: `Bearer ${storedToken}` } })
+      .then(async (response) => {
+        if (response.status === 401) {
+          logout();
+          return;
+        }
+        if (response.ok) {
+          const data = (await response.json()) as { data: AuthUser };
+          const user = { id: data.data.id, username: data.data.username, role: data.data.role };
+          localStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify({ token: storedToken, user }));
+          setSession({ token: storedToken, user });
+        }
+      })
+      .catch(() => {
+        // Keep the stored session while offline
+      });
+  }, [logout]);
+
+  const user = session?.user ?? null;
+  const hasRole = useCallback(
+    (role: UserRole) => user !== null && ROLE_RANK[user.role] >= ROLE_RANK[role],
+    [user]
+  );
+
+  // Mirrors the API: editors may change any use case, contributors their own
+  // drafts and submissions under review
+  const canEdit = useCallback(
+    (useCase: Pick<UseCase, 'status' | 'createdBy'>) =>
+      hasRole('EDITOR') ||
+      (hasRole('CONTRIBUTOR') &&
+        useCase.createdBy === user?.username &&
+        (useCase.status === 'DRAFT' || useCase.status === 'IN_REVIEW')),
+    [user, hasRole]
+  );
+
+  return (
+    <AuthContext.Provider value={{ user, login, logout, hasRole, canEdit, authFetch }}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+const useAuth = (): AuthContextValue => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+};
+
+/**
+ * Renders its children only for users with at least the given role.
+ * Anonymous visitors are sent to the login page and returned afterwards.
+ */
+const RequireRole = ({ role, children }: { role: UserRole; children: React.ReactNode }) => {
+  const { user, hasRole } = useAuth();
+  const location = useLocation();
+
+  if (!user) {
+    return <Navigate to="/login" state={{ from: location.pathname }} replace />;
+  }
+
+  if (!hasRole(role)) {
+    return (
+      <div className="min-h-[calc(100vh-4rem)] flex items-center justify-center py-12">
+        <div className="text-center">
+          <h1 className="text-display-md text-ommax-black mb-4">Access Denied</h1>
+          <p className="text-ommax-light-gray text-lg">
+            Your account ({user.role.toLowerCase()}) is not allowed to open this page.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
+
+// =============================================================================
+// FORMATTING HELPERS
+// =============================================================================
+
+const formatDateTime = (value: string): string =>
+  new Date(value).toLocaleString('en-GB', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const toExternalUrl = (url: string): string =>
+  url.startsWith('http') ? url : `https://${url}`;
+
+/**
+ * Lengths of the longest common subsequence of a[aStart, aEnd) and each
+ * prefix of b[bStart, bEnd) - or each suffix when reversed - in one row
+ */
+const lcsLengths = (
+  a: string[],
+  aStart: number,
+  aEnd: number,
+  b: string[],
+  bStart: number,
+  bEnd: number,
+  reversed: boolean
+): Uint32Array => {
+  const width = bEnd - bStart;
+  const row = new Uint32Array(width + 1);
+  for (let step = 0; step < aEnd - aStart; step++) {
+    const token = a[reversed ? aEnd - 1 - step : aStart + step];
+    let diagonal = 0;
+    for (let j = 1; j <= width; j++) {
+      const above = row[j] ?? 0;
+      row[j] = token === b[reversed ? bEnd - j : bStart + j - 1]
+        ? diagonal + 1
+        : Math.max(above, row[j - 1] ?? 0);
+      diagonal = above;
+    }
+  }
+  return row;
+};
+
+/**
+ * Word-level diff based on the longest common subsequence.
+ * Whitespace is kept as separate tokens so the text reassembles exactly.
+ * The unchanged start and end are skipped, and the rest is aligned with
+ * Hirschberg's algorithm, which keeps memory linear in the text length.
+ */
+const diffWords = (before: string, after: string): DiffSegment[] => {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment['type'], tokens: string[]) => {
+    const text = tokens.join('');
+    if (!text) {
+      return;
+    }
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  };
+
+  const align = (aStart: number, aEnd: number, bStart: number, bEnd: number): void => {
+    if (aStart === aEnd || bStart === bEnd) {
+      push('removed', a.slice(aStart, aEnd));
+      push('added', b.slice(bStart, bEnd));
+      return;
+    }
+    if (aEnd - aStart === 1) {
+      const match = b.indexOf(a[aStart] ?? '', bStart);
+      if (match === -1 || match >= bEnd) {
+        push('removed', a.slice(aStart, aEnd));
+        push('added', b.slice(bStart, bEnd));
+      } else {
+        push('added', b.slice(bStart, match));
+        push('equal', b.slice(match, match + 1));
+        push('added', b.slice(match + 1, bEnd));
+      }
+      return;
+    }
+
+    // Split b where the halves of a together keep the longest common subsequence
+    const middle = Math.floor((aStart + aEnd) / 2);
+    const head = lcsLengths(a, aStart, middle, b, bStart, bEnd, false);
+    const tail = lcsLengths(a, middle, aEnd, b, bStart, bEnd, true);
+    const width = bEnd - bStart;
+    let split = 0;
+    let best = -1;
+    for (let k = 0; k <= width; k++) {
+      const length = (head[k] ?? 0) + (tail[width - k] ?? 0);
+      if (length > best) {
+        best = length;
+        split = k;
+      }
+    }
+    align(aStart, middle, bStart, bStart + split);
+    align(middle, aEnd, bStart + split, bEnd);
+  };
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let aEnd = a.length;
+  let bEnd = b.length;
+  while (aEnd > start && bEnd > start && a[aEnd - 1] === b[bEnd - 1]) {
+    aEnd--;
+    bEnd--;
+  }
+
+  push('equal', a.slice(0, start));
+  align(start, aEnd, start, bEnd);
+  push('equal', a.slice(aEnd));
+
+  return segments;
+};
+
 // =============================================================================
 // LOADING SPINNER COMPONENT
 // =============================================================================
@@ -135,6 +672,8 @@ const ErrorBanner = ({
 // =============================================================================
 
 const Navbar = () => {
+  const { user, logout, hasRole } = useAuth();
+
   return (
     <nav className="fixed top-0 left-0 right-0 z-50 bg-ommax-deep-blue border-b border-ommax-navy">
       <div className="max-w-7xl mx-auto px-6 lg:px-8">
@@ -166,12 +705,69 @@ const Navbar = () => {
             >
               Explore
             </Link>
-            <Link
-              to="/add"
-              className="ml-2 px-4 py-2 bg-ommax-red text-white text-sm font-semibold uppercase tracking-wider hover:bg-ommax-red-dark transition-colors"
-            >
-              Add New
-            </Link>
+            {hasRole('EDITOR') && (
+              <Link
+                to="/review"
+                className="px-4 py-2 text-white/90 text-sm font-medium tracking-wide hover:text-white transition-colors"
+              >
+                Review
+              </Link>
+            )}
+            {hasRole('EDITOR') && (
+              <Link
+                to="/import"
+                className="px-4 py-2 text-white/90 text-sm font-medium tracking-wide hover:text-white transition-colors"
+              >
+                Import
+              </Link>
+            )}
+            {hasRole('EDITOR') && (
+              <Link
+                to="/taxonomy"
+                className="px-4 py-2 text-white/90 text-sm font-medium tracking-wide hover:text-white transition-colors"
+              >
+                Taxonomy
+              </Link>
+            )}
+            {hasRole('CONTRIBUTOR') && (
+              <Link
+                to="/my-submissions"
+                className="px-4 py-2 text-white/90 text-sm font-medium tracking-wide hover:text-white transition-colors"
+              >
+                My Submissions
+              </Link>
+            )}
+            {hasRole('CONTRIBUTOR') && (
+              <Link
+                to="/add"
+                className="ml-2 px-4 py-2 bg-ommax-red text-white text-sm font-semibold uppercase tracking-wider hover:bg-ommax-red-dark transition-colors"
+              >
+                Add New
+              </Link>
+            )}
+            {user ? (
+              <div className="ml-4 flex items-center gap-3">
+                <span className="hidden md:block text-white/80 text-sm">
+                  {user.username}
+                  <span className="ml-2 text-xs uppercase tracking-wider text-white/50">
+                    {user.role.toLowerCase()}
+                  </span>
+                </span>
+                <button
+                  onClick={logout}
+                  className="px-4 py-2 text-white/90 text-sm font-medium tracking-wide hover:text-white transition-colors"
+                >
+                  Sign Out
+                </button>
+              </div>
+            ) : (
+              <Link
+                to="/login"
+                className="ml-2 px-4 py-2 text-white/90 text-sm font-medium tracking-wide hover:text-white transition-colors"
+              >
+                Sign In
+              </Link>
+            )}
           </div>
         </div>
       </div>
@@ -207,165 +803,427 @@ const Layout = ({ children }: { children: React.ReactNode }) => {
 };
 
 // =============================================================================
-// USE CASE CARD COMPONENT
+// STATUS BADGE COMPONENT
 // =============================================================================
 
-const UseCaseCard = ({
+const STATUS_LABELS: Record<UseCaseStatus, string> = {
+  DRAFT: 'Draft',
+  IN_REVIEW: 'In Review',
+  PUBLISHED: 'Published',
+  ARCHIVED: 'Archived',
+};
+
+const StatusBadge = ({ status }: { status: UseCaseStatus }) => {
+  const colorClasses: Record<UseCaseStatus, string> = {
+    DRAFT: 'border-ommax-border-gray text-ommax-light-gray',
+    IN_REVIEW: 'border-ommax-red text-ommax-red',
+    PUBLISHED: 'border-ommax-black text-ommax-black',
+    ARCHIVED: 'border-ommax-border-gray text-ommax-light-gray line-through',
+  };
+
+  return (
+    <span
+      className={`inline-block px-2 py-1 border text-xs font-semibold uppercase tracking-wider ${colorClasses[status]}`}
+    >
+      {STATUS_LABELS[status]}
+    </span>
+  );
+};
+
+// =============================================================================
+// WORKFLOW ACTIONS COMPONENT
+// =============================================================================
+
+// Mirrors the transitions the API allows for each action
+const WORKFLOW_ACTIONS: Array<{
+  action: WorkflowAction;
+  label: string;
+  from: UseCaseStatus[];
+  role: UserRole;
+}> = [
+  { action: 'submit', label: 'Submit for Review', from: ['DRAFT'], role: 'CONTRIBUTOR' },
+  { action: 'approve', label: 'Approve', from: ['IN_REVIEW', 'ARCHIVED'], role: 'EDITOR' },
+  { action: 'reject', label: 'Reject', from: ['IN_REVIEW'], role: 'EDITOR' },
+  { action: 'archive', label: 'Archive', from: ['DRAFT', 'IN_REVIEW', 'PUBLISHED'], role: 'EDITOR' },
+];
+
+const WorkflowActions = ({
   useCase,
-  index,
+  onChange,
 }: {
   useCase: UseCase;
-  index: number;
+  onChange: (updated: UseCase) => void;
 }) => {
-  const [isExpanded, setIsExpanded] = useState(false);
+  const { hasRole, canEdit, authFetch } = useAuth();
+  const [isRejecting, setIsRejecting] = useState(false);
+  const [comment, setComment] = useState('');
+  const [pendingAction, setPendingAction] = useState<WorkflowAction | null>(null);
+  const [error, setError] = useState<string | null>(null);
 
-  return (
-    <article
-      className="card p-6 animate-slide-up"
-      style={{ animationDelay: `${index * 50}ms` }}
-    >
-      {/* Header */}
-      <div className="flex items-start justify-between gap-4 mb-4">
-        <h3 className="text-lg font-bold text-ommax-black leading-tight">
-          {useCase.useCase}
-        </h3>
-        {useCase.industry && (
-          <span className="flex-shrink-0 px-2 py-1 bg-ommax-light-bg text-ommax-medium-gray text-xs font-semibold uppercase tracking-wider">
-            {useCase.industry}
-          </span>
-        )}
-      </div>
+  const availableActions = WORKFLOW_ACTIONS.filter(
+    ({ from, role }) => from.includes(useCase.status) && hasRole(role) && canEdit(useCase)
+  );
 
-      {/* Meta Tags */}
-      <div className="flex flex-wrap gap-2 mb-4">
-        {useCase.valueChainStep && (
-          <span className="px-2 py-1 border border-ommax-border-gray text-ommax-light-gray text-xs font-medium">
-            {useCase.valueChainStep}
-          </span>
-        )}
-        {useCase.department && (
-          <span className="px-2 py-1 border border-ommax-border-gray text-ommax-light-gray text-xs font-medium">
-            {useCase.department}
-          </span>
-        )}
-      </div>
+  if (availableActions.length === 0) {
+    return null;
+  }
 
-      {/* Description */}
-      <p
-        className={`text-ommax-medium-gray text-sm leading-relaxed mb-4 ${
-          !isExpanded ? 'line-clamp-3' : ''
-        }`}
-      >
-        {useCase.conceptDescription}
-      </p>
+  const runAction = async (action: WorkflowAction) => {
+    if (action === 'reject' && !isRejecting) {
+      setIsRejecting(true);
+      return;
+    }
+    if (action === 'reject' && !comment.trim()) {
+      setError('Please explain why the use case is rejected');
+      return;
+    }
 
-      {/* Expandable Content */}
-      {isExpanded && (
-        <div className="space-y-4 pt-4 border-t border-ommax-border-gray animate-fade-in">
-          {useCase.concreteImplementation && (
-            <div>
-              <h4 className="text-xs font-semibold uppercase tracking-wider text-ommax-light-gray mb-2">
-                Implementation
-              </h4>
-              <p className="text-ommax-medium-gray text-sm leading-relaxed">
-                {useCase.concreteImplementation}
-              </p>
-            </div>
-          )}
-          {useCase.benefit && (
-            <div>
-              <h4 className="text-xs font-semibold uppercase tracking-wider text-ommax-light-gray mb-2">
-                Benefits
-              </h4>
-              <p className="text-ommax-medium-gray text-sm leading-relaxed">
-                {useCase.benefit}
-              </p>
-            </div>
+    setPendingAction(action);
+    setError(null);
+
+    try {
+      const response = await authFetch(`${API_BASE_URL}/use-cases/${useCase.id}/${action}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(action === 'reject' ? { comment: comment.trim() } : {}),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json() as { error?: string };
+        throw new Error(errorData.error ?? `Failed to ${action} use case`);
+      }
+
+      const data = (await response.json()) as { data: UseCase };
+      setIsRejecting(false);
+      setComment('');
+      onChange(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {error && <ErrorBanner message={error} />}
+      {isRejecting && (
+        <textarea
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          rows={3}
+          className="input-field resize-y"
+          placeholder="What needs to change before this can be published?"
+        />
+      )}
+      <div className="flex flex-wrap items-center gap-3">
+        {availableActions.map(({ action, label }) => (
+          <button
+            key={action}
+            onClick={() => runAction(action)}
+            disabled={pendingAction !== null}
+            className={action === 'approve' || action === 'submit' ? 'btn-primary' : 'btn-secondary'}
+          >
+            {pendingAction === action ? 'Saving...' : label}
+          </button>
+        ))}
+        {isRejecting && (
+          <button
+            onClick={() => setIsRejecting(false)}
+            className="text-ommax-light-gray font-semibold text-sm uppercase tracking-wider hover:text-ommax-black transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// =============================================================================
+// HIGHLIGHTED TEXT COMPONENT
+// =============================================================================
+
+const HighlightedText = ({ segments }: { segments: HighlightSegment[] }) => {
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="bg-ommax-red/10 text-ommax-black font-semibold">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+};
+
+// =============================================================================
+// USE CASE CARD COMPONENT
+// =============================================================================
+
+const UseCaseCard = ({
+  useCase,
+  index,
+}: {
+  useCase: UseCaseListItem;
+  index: number;
+}) => {
+  const { canEdit } = useAuth();
+
+  return (
+    <article
+      className="card p-6 animate-slide-up"
+      style={{ animationDelay: `${index * 50}ms` }}
+    >
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <h3 className="text-lg font-bold text-ommax-black leading-tight">
+          {useCase.searchMatch ? (
+            <HighlightedText segments={useCase.searchMatch.title} />
+          ) : (
+            useCase.useCase
           )}
-          {useCase.url && (
-            <div>
-              <a
-                href={useCase.url.startsWith('http') ? useCase.url : `https://${useCase.url}`}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="inline-flex items-center gap-1 text-ommax-red text-sm font-semibold hover:underline"
+        </h3>
+        {useCase.industries.length > 0 && (
+          <div className="flex-shrink-0 flex flex-wrap justify-end gap-1 max-w-[50%]">
+            {useCase.industries.map((industry) => (
+              <span
+                key={industry.id}
+                className="px-2 py-1 bg-ommax-light-bg text-ommax-medium-gray text-xs font-semibold uppercase tracking-wider"
               >
-                Learn More
-                <svg
-                  className="w-4 h-4"
-                  fill="none"
-                  viewBox="0 0 24 24"
-                  stroke="currentColor"
-                >
-                  <path
-                    strokeLinecap="square"
-                    strokeLinejoin="miter"
-                    strokeWidth={2}
-                    d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14"
-                  />
-                </svg>
-              </a>
-            </div>
-          )}
-        </div>
-      )}
+                {industry.name}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
 
-      {/* Expand/Collapse Button */}
-      <button
-        onClick={() => setIsExpanded(!isExpanded)}
-        className="mt-4 text-ommax-black text-sm font-semibold uppercase tracking-wider flex items-center gap-1 hover:text-ommax-red transition-colors"
-      >
-        {isExpanded ? 'Show Less' : 'View Details'}
-        <svg
-          className={`w-4 h-4 transition-transform ${isExpanded ? 'rotate-180' : ''}`}
-          fill="none"
-          viewBox="0 0 24 24"
-          stroke="currentColor"
+      {/* Meta Tags */}
+      <div className="flex flex-wrap gap-2 mb-4">
+        {useCase.valueChainStep && (
+          <span className="px-2 py-1 border border-ommax-border-gray text-ommax-light-gray text-xs font-medium">
+            {useCase.valueChainStep}
+          </span>
+        )}
+        {useCase.departments.map((department) => (
+          <span key={department.id} className="px-2 py-1 border border-ommax-border-gray text-ommax-light-gray text-xs font-medium">
+            {department.name}
+          </span>
+        ))}
+        {useCase.tags.map((tag) => (
+          <span key={tag.id} className="px-2 py-1 border border-ommax-cyan text-ommax-deep-blue text-xs font-medium">
+            {tag.name}
+          </span>
+        ))}
+      </div>
+
+      {/* Description, or the matched passages when searching */}
+      <p className="text-ommax-medium-gray text-sm leading-relaxed mb-4 line-clamp-3">
+        {useCase.searchMatch ? (
+          <HighlightedText segments={useCase.searchMatch.snippet} />
+        ) : (
+          useCase.conceptDescription
+        )}
+      </p>
+
+      {/* Actions */}
+      <div className="mt-4 flex items-center justify-between">
+        <Link
+          to={`/use-cases/${useCase.id}`}
+          className="text-ommax-black text-sm font-semibold uppercase tracking-wider flex items-center gap-1 hover:text-ommax-red transition-colors"
         >
-          <path
-            strokeLinecap="square"
-            strokeLinejoin="miter"
-            strokeWidth={2}
-            d="M19 9l-7 7-7-7"
-          />
-        </svg>
-      </button>
+          View Details
+          <svg
+            className="w-4 h-4"
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path
+              strokeLinecap="square"
+              strokeLinejoin="miter"
+              strokeWidth={2}
+              d="M9 5l7 7-7 7"
+            />
+          </svg>
+        </Link>
+        {canEdit(useCase) && (
+          <Link
+            to={`/use-cases/${useCase.id}/edit`}
+            className="text-ommax-light-gray text-sm font-semibold uppercase tracking-wider hover:text-ommax-red transition-colors"
+          >
+            Edit
+          </Link>
+        )}
+      </div>
     </article>
   );
 };
 
 // =============================================================================
-// FILTER DROPDOWN COMPONENT
+// MULTI-SELECT FILTER COMPONENT
 // =============================================================================
 
-const FilterDropdown = ({
+const EMPTY_FACET_FILTERS: FacetFilters = {
+  industry: { include: [], exclude: [] },
+  valueChainStep: { include: [], exclude: [] },
+  department: { include: [], exclude: [] },
+};
+
+const EXCLUDE_PARAMS: Record<FacetKey, string> = {
+  industry: 'excludeIndustry',
+  valueChainStep: 'excludeValueChainStep',
+  department: 'excludeDepartment',
+};
+
+/**
+ * Reads the selected facet values from repeated query parameters
+ */
+const readFacetParams = (params: URLSearchParams): FacetFilters => {
+  const facetFilters = { ...EMPTY_FACET_FILTERS };
+  for (const key of Object.keys(EXCLUDE_PARAMS) as FacetKey[]) {
+    facetFilters[key] = { include: params.getAll(key), exclude: params.getAll(EXCLUDE_PARAMS[key]) };
+  }
+  return facetFilters;
+};
+
+/**
+ * Adds the selected facet values as repeated query parameters
+ */
+const appendFacetParams = (params: URLSearchParams, facetFilters: FacetFilters) => {
+  for (const key of Object.keys(facetFilters) as FacetKey[]) {
+    facetFilters[key].include.forEach((value) => params.append(key, value));
+    facetFilters[key].exclude.forEach((value) => params.append(EXCLUDE_PARAMS[key], value));
+  }
+};
+
+// Facet and tag parameters of the list API
+const LIST_FILTER_PARAMS = [...Object.keys(EXCLUDE_PARAMS), ...Object.values(EXCLUDE_PARAMS), 'tags'];
+
+/**
+ * Converts explore parameters for the list API. Filter values are sent as
+ * "industry[]=...", which the API keeps whole even when it is the only one,
+ * as names such as "Banking, Financial Services" contain commas.
+ */
+const toApiListParams = (source: URLSearchParams): URLSearchParams => {
+  const params = new URLSearchParams();
+  source.forEach((value, key) => params.append(LIST_FILTER_PARAMS.includes(key) ? `${key}[]` : key, value));
+  return params;
+};
+
+const MultiSelectFilter = ({
   label,
-  value,
+  selection,
   options,
   onChange,
 }: {
   label: string;
-  value: string;
-  options: string[];
-  onChange: (value: string) => void;
+  selection: FacetSelection;
+  options: FacetOption[];
+  onChange: (selection: FacetSelection) => void;
 }) => {
+  const [mode, setMode] = useState<keyof FacetSelection>('include');
+  const selectedValues = new Set([...selection.include, ...selection.exclude]);
+  const availableOptions = options.filter((option) => !selectedValues.has(option.value));
+
+  const addValue = (value: string) => {
+    if (value) {
+      onChange({ ...selection, [mode]: [...selection[mode], value] });
+    }
+  };
+
+  const removeValue = (value: string) => {
+    onChange({
+      include: selection.include.filter((item) => item !== value),
+      exclude: selection.exclude.filter((item) => item !== value),
+    });
+  };
+
+  // Moves a value between the include and exclude lists
+  const toggleValue = (value: string) => {
+    const isIncluded = selection.include.includes(value);
+    onChange({
+      include: isIncluded ? selection.include.filter((item) => item !== value) : [...selection.include, value],
+      exclude: isIncluded ? [...selection.exclude, value] : selection.exclude.filter((item) => item !== value),
+    });
+  };
+
+  const chips = [
+    ...selection.include.map((value) => ({ value, excluded: false })),
+    ...selection.exclude.map((value) => ({ value, excluded: true })),
+  ];
+
   return (
-    <div className="flex flex-col gap-1">
+    <div className="flex flex-col gap-1 min-w-[16rem]">
       <label className="text-xs font-semibold uppercase tracking-wider text-ommax-light-gray">
         {label}
       </label>
-      <select
-        value={value}
-        onChange={(e) => onChange(e.target.value)}
-        className="input-field py-2 text-sm cursor-pointer"
-      >
-        <option value="">All</option>
-        {options.map((option) => (
-          <option key={option} value={option}>
-            {option}
-          </option>
-        ))}
-      </select>
+      <div className="flex">
+        <button
+          type="button"
+          onClick={() => setMode(mode === 'include' ? 'exclude' : 'include')}
+          className={`px-3 border border-r-0 text-xs font-semibold uppercase tracking-wider transition-colors ${
+            mode === 'include'
+              ? 'border-ommax-border-gray text-ommax-black hover:bg-ommax-off-white'
+              : 'border-ommax-red bg-ommax-red text-white hover:bg-ommax-red-dark'
+          }`}
+          title="Switch between including and excluding values"
+        >
+          {mode === 'include' ? 'Is' : 'Not'}
+        </button>
+        <select
+          value=""
+          onChange={(e) => addValue(e.target.value)}
+          className="input-field py-2 text-sm cursor-pointer"
+        >
+          <option value="">{mode === 'include' ? 'Add…' : 'Exclude…'}</option>
+          {availableOptions.map((option) => (
+            <option
+              key={option.value}
+              value={option.value}
+              disabled={mode === 'include' && option.count === 0}
+            >
+              {option.value} ({option.count})
+            </option>
+          ))}
+        </select>
+      </div>
+      {chips.length > 0 && (
+        <div className="flex flex-wrap gap-2 mt-1">
+          {chips.map(({ value, excluded }) => (
+            <span
+              key={value}
+              className={`inline-flex items-center text-xs font-medium border ${
+                excluded
+                  ? 'border-ommax-red text-ommax-red bg-white'
+                  : 'border-ommax-black text-white bg-ommax-black'
+              }`}
+            >
+              <button
+                type="button"
+                onClick={() => toggleValue(value)}
+                className="px-2 py-1"
+                title={excluded ? 'Include instead' : 'Exclude instead'}
+              >
+                {excluded ? `Not ${value}` : value}
+              </button>
+              <button
+                type="button"
+                onClick={() => removeValue(value)}
+                className="px-2 py-1 border-l border-current"
+                aria-label={`Remove ${value}`}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
@@ -512,28 +1370,139 @@ const LandingPage = () => {
   );
 };
 
+// =============================================================================
+// TAG CLOUD COMPONENT
+// =============================================================================
+
+// Most used tags offered as filters
+const TAG_CLOUD_LIMIT = 30;
+
+/**
+ * Most used tags of the published library, sized by usage. Selected tags
+ * stay visible even when they are not among the most used.
+ */
+const TagCloud = ({ selected, onToggle }: { selected: string[]; onToggle: (tag: string) => void }) => {
+  const [tags, setTags] = useState<TagCount[]>([]);
+
+  useEffect(() => {
+    const fetchTags = async () => {
+      try {
+        const response = await fetch(`${API_BASE_URL}/tags?limit=${TAG_CLOUD_LIMIT}`);
+        if (response.ok) {
+          const data = (await response.json()) as { data: TagCount[] };
+          setTags(data.data);
+        }
+      } catch {
+        // Silently fail - the tag cloud is optional enhancement
+      }
+    };
+
+    fetchTags();
+  }, []);
+
+  const shown = [
+    ...tags,
+    ...selected
+      .filter((name) => !tags.some((tag) => tag.name.toLowerCase() === name.toLowerCase()))
+      .map((name, index) => ({ id: -1 - index, name, count: 0 })),
+  ].sort((a, b) => a.name.localeCompare(b.name));
+
+  if (shown.length === 0) {
+    return null;
+  }
+
+  const maxCount = Math.max(...shown.map(({ count }) => count), 1);
+  const isSelected = (name: string) => selected.some((item) => item.toLowerCase() === name.toLowerCase());
+
+  return (
+    <div className="mt-6 pt-6 border-t border-ommax-border-gray">
+      <span className="block text-xs font-semibold uppercase tracking-wider text-ommax-light-gray mb-3">
+        Tags
+      </span>
+      <div className="flex flex-wrap items-center gap-2">
+        {shown.map((tag) => (
+          <button
+            key={tag.id}
+            onClick={() => onToggle(tag.name)}
+            className={`px-2 py-1 border transition-colors ${
+              isSelected(tag.name)
+                ? 'bg-ommax-black text-white border-ommax-black'
+                : 'border-ommax-border-gray text-ommax-medium-gray hover:border-ommax-red hover:text-ommax-red'
+            } ${tag.count / maxCount > 0.66 ? 'text-base font-semibold' : tag.count / maxCount > 0.33 ? 'text-sm font-medium' : 'text-xs'}`}
+          >
+            {tag.name}
+            {tag.count > 0 && <span className="ml-1 opacity-60">{tag.count}</span>}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
 // =============================================================================
 // EXPLORE PAGE
 // =============================================================================
 
+const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx', 'json'];
+
+const SORT_LABELS: Record<SortOption, string> = {
+  relevance: 'Relevance',
+  newest: 'Newest',
+  oldest: 'Oldest',
+  title: 'A–Z',
+  updated: 'Recently Updated',
+  views: 'Most Viewed',
+};
+
 const ExplorePage = () => {
-  const [useCases, setUseCases] = useState<UseCase[]>([]);
+  const [useCases, setUseCases] = useState<UseCaseListItem[]>([]);
   const [pagination, setPagination] = useState<PaginatedResponse['pagination'] | null>(null);
   const [filterOptions, setFilterOptions] = useState<FilterOptions>({
     industries: [],
     valueChainSteps: [],
     departments: [],
   });
-  const [selectedIndustry, setSelectedIndustry] = useState('');
-  const [selectedValueChainStep, setSelectedValueChainStep] = useState('');
-  const [searchQuery, setSearchQuery] = useState('');
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [currentPage, setCurrentPage] = useState(1);
 
+  // Filters, search, sort and page live in the query string so views can be
+  // bookmarked, shared and navigated with back/forward
+  const [searchParams, setSearchParams] = useSearchParams();
+  const facetFilters = useMemo(() => readFacetParams(searchParams), [searchParams]);
+  const selectedTags = useMemo(() => searchParams.getAll('tags'), [searchParams]);
+  const searchQuery = searchParams.get('search') ?? '';
+  const sortParam = searchParams.get('sort');
+  // null keeps the API default: relevance while searching, newest otherwise
+  const sortOption = sortParam && sortParam in SORT_LABELS ? (sortParam as SortOption) : null;
+  const currentPage = Math.max(1, parseInt(searchParams.get('page') ?? '1', 10) || 1);
+
+  // The input is only written to the URL when the search is submitted
+  const [searchInput, setSearchInput] = useState(searchQuery);
+
+  useEffect(() => {
+    setSearchInput(searchQuery);
+  }, [searchQuery]);
+
+  /**
+   * Applies a change to the query string. Any change other than paging
+   * starts again at the first page.
+   */
+  const updateSearchParams = (update: (params: URLSearchParams) => void) => {
+    const next = new URLSearchParams(searchParams);
+    next.delete('page');
+    update(next);
+    setSearchParams(next);
+  };
+
+  // Option counts reflect the other active filters and the search query
   const fetchFilterOptions = useCallback(async () => {
     try {
-      const response = await fetch(`${API_BASE_URL}/use-cases/filters`);
+      const params = new URLSearchParams();
+      appendFacetParams(params, facetFilters);
+      selectedTags.forEach((tag) => params.append('tags', tag));
+      if (searchQuery) params.set('search', searchQuery);
+
+      const response = await fetch(`${API_BASE_URL}/use-cases/filters?${toApiListParams(params).toString()}`);
       if (response.ok) {
         const data = (await response.json()) as FilterOptions;
         setFilterOptions(data);
@@ -541,7 +1510,7 @@ const ExplorePage = () => {
     } catch {
       // Silently fail - filters are optional enhancement
     }
-  }, []);
+  }, [facetFilters, selectedTags, searchQuery]);
 
   const fetchUseCases = useCallback(async () => {
     setIsLoading(true);
@@ -551,11 +1520,12 @@ const ExplorePage = () => {
       const params = new URLSearchParams();
       params.set('page', currentPage.toString());
       params.set('limit', '12');
-      if (selectedIndustry) params.set('industry', selectedIndustry);
-      if (selectedValueChainStep) params.set('valueChainStep', selectedValueChainStep);
+      appendFacetParams(params, facetFilters);
+      selectedTags.forEach((tag) => params.append('tags', tag));
       if (searchQuery) params.set('search', searchQuery);
+      if (sortOption) params.set('sort', sortOption);
 
-      const response = await fetch(`${API_BASE_URL}/use-cases?${params.toString()}`);
+      const response = await fetch(`${API_BASE_URL}/use-cases?${toApiListParams(params).toString()}`);
 
       if (!response.ok) {
         throw new Error(`Failed to fetch use cases: ${response.statusText}`);
@@ -569,7 +1539,7 @@ const ExplorePage = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [currentPage, selectedIndustry, selectedValueChainStep, searchQuery]);
+  }, [currentPage, facetFilters, selectedTags, searchQuery, sortOption]);
 
   useEffect(() => {
     fetchFilterOptions();
@@ -579,39 +1549,96 @@ const ExplorePage = () => {
     fetchUseCases();
   }, [fetchUseCases]);
 
-  const handleFilterChange = (filter: 'industry' | 'valueChainStep', value: string) => {
-    setCurrentPage(1);
-    if (filter === 'industry') {
-      setSelectedIndustry(value);
-    } else {
-      setSelectedValueChainStep(value);
-    }
+  const handleFilterChange = (facet: FacetKey, selection: FacetSelection) => {
+    updateSearchParams((params) => {
+      params.delete(facet);
+      params.delete(EXCLUDE_PARAMS[facet]);
+      appendFacetParams(params, { ...EMPTY_FACET_FILTERS, [facet]: selection });
+    });
+  };
+
+  // Selecting several tags shows use cases with any of them
+  const handleTagToggle = (tag: string) => {
+    const remaining = selectedTags.filter((item) => item.toLowerCase() !== tag.toLowerCase());
+    updateSearchParams((params) => {
+      params.delete('tags');
+      (remaining.length < selectedTags.length ? remaining : [...selectedTags, tag])
+        .forEach((item) => params.append('tags', item));
+    });
+  };
+
+  const handleSortChange = (value: SortOption) => {
+    updateSearchParams((params) => params.set('sort', value));
+  };
+
+  const handlePageChange = (page: number) => {
+    updateSearchParams((params) => {
+      if (page > 1) {
+        params.set('page', page.toString());
+      }
+    });
   };
 
   const handleSearch = (e: FormEvent<HTMLFormElement>) => {
     e.preventDefault();
-    setCurrentPage(1);
-    fetchUseCases();
+    const search = searchInput.trim();
+    if (search === searchQuery) {
+      fetchUseCases();
+      return;
+    }
+    updateSearchParams((params) => {
+      if (search) {
+        params.set('search', search);
+      } else {
+        params.delete('search');
+      }
+    });
   };
 
+  // Keeps the chosen sort order
   const clearFilters = () => {
-    setSelectedIndustry('');
-    setSelectedValueChainStep('');
-    setSearchQuery('');
-    setCurrentPage(1);
+    setSearchParams(sortOption ? { sort: sortOption } : {});
+  };
+
+  // The export accepts the same query parameters as the list, minus paging
+  const getExportUrl = (format: ExportFormat): string => {
+    const params = new URLSearchParams(searchParams);
+    params.delete('page');
+    params.set('format', format);
+    return `${API_BASE_URL}/use-cases/export?${toApiListParams(params).toString()}`;
   };
 
-  const hasActiveFilters = selectedIndustry || selectedValueChainStep || searchQuery;
+  const hasActiveFilters =
+    searchQuery ||
+    selectedTags.length > 0 ||
+    Object.values(facetFilters).some((selection) => selection.include.length + selection.exclude.length > 0);
 
   return (
     <div className="min-h-[calc(100vh-4rem)] py-12">
       <div className="max-w-7xl mx-auto px-6 lg:px-8">
         {/* Header */}
-        <div className="mb-10">
-          <h1 className="text-display-md text-ommax-black mb-2">Explore Use Cases</h1>
-          <p className="text-ommax-light-gray text-lg">
-            Browse and filter our comprehensive library of digital transformation use cases.
-          </p>
+        <div className="mb-10 flex flex-wrap items-end justify-between gap-6">
+          <div>
+            <h1 className="text-display-md text-ommax-black mb-2">Explore Use Cases</h1>
+            <p className="text-ommax-light-gray text-lg">
+              Browse and filter our comprehensive library of digital transformation use cases.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-xs font-semibold uppercase tracking-wider text-ommax-light-gray">
+              Export
+            </span>
+            {EXPORT_FORMATS.map((format) => (
+              <a
+                key={format}
+                href={getExportUrl(format)}
+                download
+                className="px-3 py-2 border border-ommax-border-gray text-sm font-semibold uppercase text-ommax-black hover:border-ommax-red hover:text-ommax-red transition-colors"
+              >
+                {format}
+              </a>
+            ))}
+          </div>
         </div>
 
         {/* Search & Filters */}
@@ -621,8 +1648,8 @@ const ExplorePage = () => {
               <div className="flex-1">
                 <input
                   type="text"
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
                   placeholder="Search use cases..."
                   className="input-field"
                 />
@@ -633,28 +1660,56 @@ const ExplorePage = () => {
             </div>
           </form>
 
-          <div className="flex flex-wrap items-end gap-4">
-            <FilterDropdown
+          <div className="flex flex-wrap items-start gap-4">
+            <MultiSelectFilter
               label="Industry"
-              value={selectedIndustry}
+              selection={facetFilters.industry}
               options={filterOptions.industries}
-              onChange={(value) => handleFilterChange('industry', value)}
+              onChange={(selection) => handleFilterChange('industry', selection)}
             />
-            <FilterDropdown
+            <MultiSelectFilter
               label="Value Chain Step"
-              value={selectedValueChainStep}
+              selection={facetFilters.valueChainStep}
               options={filterOptions.valueChainSteps}
-              onChange={(value) => handleFilterChange('valueChainStep', value)}
+              onChange={(selection) => handleFilterChange('valueChainStep', selection)}
             />
+            <MultiSelectFilter
+              label="Department"
+              selection={facetFilters.department}
+              options={filterOptions.departments}
+              onChange={(selection) => handleFilterChange('department', selection)}
+            />
+            <div className="flex flex-col gap-1">
+              <label className="text-xs font-semibold uppercase tracking-wider text-ommax-light-gray">
+                Sort By
+              </label>
+              <select
+                value={sortOption ?? (searchQuery ? 'relevance' : 'newest')}
+                onChange={(e) => handleSortChange(e.target.value as SortOption)}
+                className="input-field py-2 text-sm cursor-pointer"
+              >
+                {(Object.keys(SORT_LABELS) as SortOption[]).map((option) => (
+                  <option
+                    key={option}
+                    value={option}
+                    disabled={option === 'relevance' && !searchQuery}
+                  >
+                    {SORT_LABELS[option]}
+                  </option>
+                ))}
+              </select>
+            </div>
             {hasActiveFilters && (
               <button
                 onClick={clearFilters}
-                className="px-4 py-2 text-ommax-red text-sm font-semibold uppercase tracking-wider hover:underline"
+                className="mt-5 px-4 py-2 text-ommax-red text-sm font-semibold uppercase tracking-wider hover:underline"
               >
                 Clear Filters
               </button>
             )}
           </div>
+
+          <TagCloud selected={selectedTags} onToggle={handleTagToggle} />
         </div>
 
         {/* Error State */}
@@ -713,7 +1768,7 @@ const ExplorePage = () => {
                 {pagination && pagination.totalPages > 1 && (
                   <Pagination
                     pagination={pagination}
-                    onPageChange={(page) => setCurrentPage(page)}
+                    onPageChange={handlePageChange}
                   />
                 )}
               </>
@@ -726,100 +1781,2033 @@ const ExplorePage = () => {
 };
 
 // =============================================================================
-// ADD USE CASE PAGE
+// USE CASE DETAIL PAGE
 // =============================================================================
 
-const AddUseCasePage = () => {
-  const navigate = useNavigate();
-  const [formData, setFormData] = useState<FormData>({
-    useCase: '',
-    conceptDescription: '',
-    concreteImplementation: '',
-    benefit: '',
-    industry: '',
-    department: '',
-    valueChainStep: '',
-    url: '',
-  });
-  const [errors, setErrors] = useState<FormErrors>({});
-  const [isSubmitting, setIsSubmitting] = useState(false);
-  const [submitSuccess, setSubmitSuccess] = useState(false);
+const DetailSection = ({ title, content }: { title: string; content: string | null }) => {
+  if (!content) {
+    return null;
+  }
 
-  const validateForm = (): boolean => {
-    const newErrors: FormErrors = {};
+  return (
+    <section>
+      <h2 className="text-xs font-semibold uppercase tracking-wider text-ommax-light-gray mb-2">
+        {title}
+      </h2>
+      <p className="text-ommax-medium-gray leading-relaxed whitespace-pre-line">{content}</p>
+    </section>
+  );
+};
 
-    if (!formData.useCase.trim()) {
-      newErrors.useCase = 'Use case name is required';
-    } else if (formData.useCase.trim().length < 3) {
-      newErrors.useCase = 'Use case name must be at least 3 characters';
-    }
+// Linked terms as one metadata value, null when there are none
+const joinTermNames = (terms: LinkedTerm[]): string | null =>
+  terms.length > 0 ? terms.map((term) => term.name).join(', ') : null;
 
-    if (!formData.conceptDescription.trim()) {
-      newErrors.conceptDescription = 'Concept description is required';
-    } else if (formData.conceptDescription.trim().length < 10) {
-      newErrors.conceptDescription = 'Description must be at least 10 characters';
-    }
+const TAXONOMY_LABELS: Record<TaxonomyField, string> = {
+  industries: 'Same industry',
+  departments: 'Same department',
+  valueChainStep: 'Same value chain step',
+};
 
-    if (formData.url.trim()) {
-      const urlRegex = /^(https?:\/\/)?([\da-z.-]+)\.([a-z.]{2,6})([/\w .-]*)*\/?$/i;
-      if (!urlRegex.test(formData.url.trim())) {
-        newErrors.url = 'Please enter a valid URL';
-      }
-    }
+/**
+ * Published use cases closest to the one being viewed.
+ * Recommendations are optional, so failures leave the section hidden.
+ */
+const RelatedUseCases = ({ useCaseId }: { useCaseId: number }) => {
+  const { authFetch } = useAuth();
+  const [related, setRelated] = useState<RelatedUseCase[]>([]);
 
-    setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
-  };
+  useEffect(() => {
+    const controller = new AbortController();
+    setRelated([]);
 
-  const handleChange = (
-    e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
-  ) => {
-    const { name, value } = e.target;
-    setFormData((prev) => ({ ...prev, [name]: value }));
-    // Clear error when user starts typing
-    if (errors[name as keyof FormErrors]) {
-      setErrors((prev) => ({ ...prev, [name]: undefined }));
+    const fetchRelated = async () => {
+      try {
+        const response = await authFetch(`${API_BASE_URL}/use-cases/${useCaseId}/similar`, {
+          signal: controller.signal,
+        });
+        if (response.ok) {
+          const data = (await response.json()) as { data: RelatedUseCase[] };
+          setRelated(data.data);
+        }
+      } catch {
+        // Aborted when navigating to another use case or offline
+      }
+    };
+
+    fetchRelated();
+    return () => controller.abort();
+  }, [useCaseId, authFetch]);
+
+  if (related.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="mt-12">
+      <h2 className="text-xs font-semibold uppercase tracking-wider text-ommax-light-gray mb-4">
+        Similar Use Cases
+      </h2>
+      <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {related.map((useCase) => (
+          <Link
+            key={useCase.id}
+            to={`/use-cases/${useCase.id}`}
+            className="block bg-white border border-ommax-border-gray p-5 hover:border-ommax-red transition-colors"
+          >
+            <p className="font-semibold text-ommax-black mb-1">{useCase.useCase}</p>
+            <p className="text-sm text-ommax-medium-gray line-clamp-2 mb-3">{useCase.conceptDescription}</p>
+            <div className="flex flex-wrap gap-2 text-xs text-ommax-light-gray">
+              {useCase.sharedTaxonomy.length > 0
+                ? useCase.sharedTaxonomy.map((field) => <span key={field}>{TAXONOMY_LABELS[field]}</span>)
+                : useCase.industries.map((industry) => <span key={industry.id}>{industry.name}</span>)}
+            </div>
+          </Link>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+// Navigation state of the editing pages returning to a use case, whose view is not counted
+const RETURN_FROM_EDITING = { returnFromEditing: true };
+
+const UseCaseDetailPage = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { canEdit, authFetch } = useAuth();
+  const { id } = useParams<{ id: string }>();
+  const [useCase, setUseCase] = useState<UseCase | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  const fetchUseCase = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setUseCase(await fetchUseCaseById(id ?? '', authFetch));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id, authFetch]);
+
+  useEffect(() => {
+    fetchUseCase();
+  }, [fetchUseCase]);
+
+  const returnFromEditing = (location.state as typeof RETURN_FROM_EDITING | null)?.returnFromEditing === true;
+
+  // Counts one view per visit; failures only affect the "most viewed" sort
+  useEffect(() => {
+    if (!id || returnFromEditing) {
+      return;
+    }
+    authFetch(`${API_BASE_URL}/use-cases/${id}/views`, { method: 'POST' }).catch(() => undefined);
+  }, [id, returnFromEditing, authFetch]);
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch {
+      // Clipboard access can be denied - the URL bar remains available
+    }
+  };
+
+  const metadata: Array<{ label: string; value: string | null }> = useCase
+    ? [
+        { label: 'Industries', value: joinTermNames(useCase.industries) },
+        { label: 'Departments', value: joinTermNames(useCase.departments) },
+        { label: 'Value Chain Step', value: useCase.valueChainStep },
+        { label: 'Status', value: STATUS_LABELS[useCase.status] },
+        { label: 'Views', value: useCase.viewCount.toLocaleString() },
+        { label: 'Created', value: formatDateTime(useCase.createdAt) },
+        { label: 'Last Updated', value: formatDateTime(useCase.updatedAt) },
+      ]
+    : [];
+
+  return (
+    <div className="min-h-[calc(100vh-4rem)] py-12">
+      <div className="max-w-5xl mx-auto px-6 lg:px-8">
+        <button
+          onClick={() => navigate('/explore')}
+          className="mb-8 text-ommax-light-gray text-sm font-semibold uppercase tracking-wider hover:text-ommax-black transition-colors"
+        >
+          &larr; Back to Explore
+        </button>
+
+        {/* Loading State */}
+        {isLoading && (
+          <div className="flex items-center justify-center py-20">
+            <LoadingSpinner size="lg" />
+          </div>
+        )}
+
+        {/* Error State */}
+        {!isLoading && error && (
+          <ErrorBanner message={error} onRetry={fetchUseCase} />
+        )}
+
+        {!isLoading && !error && useCase && (
+          <article className="animate-fade-in">
+            {/* Header */}
+            <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-6 mb-10">
+              <div>
+                {useCase.status !== 'PUBLISHED' && (
+                  <div className="mb-3">
+                    <StatusBadge status={useCase.status} />
+                  </div>
+                )}
+                <h1 className="text-display-md text-ommax-black">{useCase.useCase}</h1>
+                {useCase.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mt-4">
+                    {useCase.tags.map((tag) => (
+                      <Link
+                        key={tag.id}
+                        to={`/explore?${new URLSearchParams({ tags: tag.name }).toString()}`}
+                        className="px-2 py-1 border border-ommax-cyan text-ommax-deep-blue text-xs font-medium hover:bg-ommax-cyan transition-colors"
+                      >
+                        {tag.name}
+                      </Link>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <div className="flex items-center gap-3 flex-shrink-0">
+                <button onClick={copyLink} className="btn-secondary">
+                  {linkCopied ? 'Link Copied' : 'Copy Link'}
+                </button>
+                <Link to={`/use-cases/${useCase.id}/history`} className="btn-secondary">
+                  History
+                </Link>
+                {canEdit(useCase) && (
+                  <Link to={`/use-cases/${useCase.id}/edit`} className="btn-primary">
+                    Edit
+                  </Link>
+                )}
+              </div>
+            </div>
+
+            {/* Editorial Workflow */}
+            {useCase.status !== 'PUBLISHED' && useCase.reviewComment && (
+              <blockquote className="mb-8 border-l-2 border-ommax-red bg-white p-4 text-sm text-ommax-medium-gray">
+                <span className="block text-xs font-semibold uppercase tracking-wider text-ommax-light-gray mb-1">
+                  Reviewer Comment
+                </span>
+                {useCase.reviewComment}
+                {useCase.mergedIntoId && (
+                  <Link
+                    to={`/use-cases/${useCase.mergedIntoId}`}
+                    className="block mt-2 text-ommax-red font-semibold hover:underline"
+                  >
+                    Open the merged use case
+                  </Link>
+                )}
+              </blockquote>
+            )}
+            <div className="mb-8">
+              <WorkflowActions useCase={useCase} onChange={setUseCase} />
+            </div>
+
+            <div className="grid lg:grid-cols-3 gap-8">
+              {/* Content */}
+              <div className="lg:col-span-2 bg-white border border-ommax-border-gray p-8 space-y-8">
+                <DetailSection title="Concept Description" content={useCase.conceptDescription} />
+                <DetailSection title="Implementation" content={useCase.concreteImplementation} />
+                <DetailSection title="Benefits" content={useCase.benefit} />
+                {useCase.url && (
+                  <a
+                    href={toExternalUrl(useCase.url)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-1 text-ommax-red text-sm font-semibold hover:underline"
+                  >
+                    Learn More
+                    <svg
+                      className="w-4 h-4"
+                      fill="none"
+                      viewBox="0 0 24 24"
+                      stroke="currentColor"
+                    >
+                      <path
+                        strokeLinecap="square"
+                        strokeLinejoin="miter"
+                        strokeWidth={2}
+                        d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14"
+                      />
+                    </svg>
+                  </a>
+                )}
+              </div>
+
+              {/* Metadata */}
+              <aside className="bg-white border border-ommax-border-gray p-8 h-fit">
+                <dl className="space-y-5">
+                  {metadata.map(({ label, value }) => (
+                    <div key={label}>
+                      <dt className="text-xs font-semibold uppercase tracking-wider text-ommax-light-gray mb-1">
+                        {label}
+                      </dt>
+                      <dd className="text-ommax-black font-medium">{value ?? '—'}</dd>
+                    </div>
+                  ))}
+                </dl>
+              </aside>
+            </div>
+
+            <RelatedUseCases useCaseId={useCase.id} />
+          </article>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// =============================================================================
+// USE CASE HISTORY PAGE
+// =============================================================================
+
+const SNAPSHOT_FIELDS: Array<{ key: keyof UseCaseSnapshot; label: string }> = [
+  { key: 'useCase', label: 'Use Case Name' },
+  { key: 'conceptDescription', label: 'Concept Description' },
+  { key: 'concreteImplementation', label: 'Implementation' },
+  { key: 'benefit', label: 'Benefits' },
+  { key: 'industries', label: 'Industries' },
+  { key: 'departments', label: 'Departments' },
+  { key: 'valueChainStep', label: 'Value Chain Step' },
+  { key: 'url', label: 'Reference URL' },
+  { key: 'tags', label: 'Tags' },
+];
+
+// Snapshot field as diffable text - industries, departments and tags joined with "; "
+const snapshotText = (snapshot: UseCaseSnapshot | undefined, key: keyof UseCaseSnapshot): string => {
+  const value = snapshot?.[key];
+  return Array.isArray(value) ? value.join('; ') : value ?? '';
+};
+
+const REVISION_ACTION_LABELS: Record<UseCaseRevision['action'], string> = {
+  CREATE: 'Created',
+  UPDATE: 'Updated',
+  DELETE: 'Deleted',
+  RESTORE: 'Restored',
+  SUBMIT: 'Submitted for Review',
+  APPROVE: 'Approved',
+  REJECT: 'Rejected',
+  ARCHIVE: 'Archived',
+};
+
+const DiffText = ({ segments }: { segments: DiffSegment[] }) => {
+  return (
+    <p className="text-sm leading-relaxed whitespace-pre-line">
+      {segments.map((segment, index) => {
+        if (segment.type === 'added') {
+          return (
+            <ins key={index} className="bg-green-100 text-green-900 no-underline">
+              {segment.text}
+            </ins>
+          );
+        }
+        if (segment.type === 'removed') {
+          return (
+            <del key={index} className="bg-red-100 text-ommax-red-dark">
+              {segment.text}
+            </del>
+          );
+        }
+        return (
+          <span key={index} className="text-ommax-medium-gray">
+            {segment.text}
+          </span>
+        );
+      })}
+    </p>
+  );
+};
+
+const UseCaseHistoryPage = () => {
+  const navigate = useNavigate();
+  const { hasRole, authFetch } = useAuth();
+  const { id } = useParams<{ id: string }>();
+  const [revisions, setRevisions] = useState<UseCaseRevision[]>([]);
+  const [selectedRevisionId, setSelectedRevisionId] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHistory = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await authFetch(`${API_BASE_URL}/use-cases/${id ?? ''}/history`);
+
+      if (!response.ok) {
+        const errorData = await response.json() as { error?: string };
+        throw new Error(errorData.error ?? `Failed to load history: ${response.statusText}`);
+      }
+
+      const data = (await response.json()) as { data: UseCaseRevision[] };
+      setRevisions(data.data);
+      setSelectedRevisionId(data.data[0]?.id ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id, authFetch]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  const restoreRevision = async (revisionId: number) => {
+    setIsRestoring(true);
+    setError(null);
+
+    try {
+      const response = await authFetch(
+        `${API_BASE_URL}/use-cases/${id ?? ''}/history/${revisionId}/restore`,
+        { method: 'POST' }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json() as { error?: string };
+        throw new Error(errorData.error ?? 'Failed to restore revision');
+      }
+
+      navigate(`/use-cases/${id ?? ''}`, { state: RETURN_FROM_EDITING });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  // Revisions are sorted newest first, so the predecessor is the next entry
+  const selectedIndex = revisions.findIndex((revision) => revision.id === selectedRevisionId);
+  const selectedRevision = revisions[selectedIndex];
+  const previousRevision = revisions[selectedIndex + 1];
+
+  // Diffs of long descriptions are costly, so they are only computed when the selection changes
+  const changedFields = useMemo(
+    () =>
+      selectedRevision
+        ? SNAPSHOT_FIELDS.flatMap(({ key, label }) => {
+            const before = snapshotText(previousRevision?.snapshot, key);
+            const after = snapshotText(selectedRevision.snapshot, key);
+            return before === after ? [] : [{ key, label, segments: diffWords(before, after) }];
+          })
+        : [],
+    [selectedRevision, previousRevision]
+  );
+
+  return (
+    <div className="min-h-[calc(100vh-4rem)] py-12">
+      <div className="max-w-7xl mx-auto px-6 lg:px-8">
+        <button
+          onClick={() => navigate(`/use-cases/${id ?? ''}`, { state: RETURN_FROM_EDITING })}
+          className="mb-8 text-ommax-light-gray text-sm font-semibold uppercase tracking-wider hover:text-ommax-black transition-colors"
+        >
+          &larr; Back to Use Case
+        </button>
+
+        {/* Header */}
+        <div className="mb-10">
+          <h1 className="text-display-md text-ommax-black mb-2">Change History</h1>
+          <p className="text-ommax-light-gray text-lg">
+            {revisions[0]?.snapshot.useCase ?? 'Review earlier versions and restore them if needed.'}
+          </p>
+        </div>
+
+        {/* Error State */}
+        {error && (
+          <div className="mb-8">
+            <ErrorBanner message={error} onRetry={fetchHistory} />
+          </div>
+        )}
+
+        {/* Loading State */}
+        {isLoading && (
+          <div className="flex items-center justify-center py-20">
+            <LoadingSpinner size="lg" />
+          </div>
+        )}
+
+        {!isLoading && selectedRevision && (
+          <div className="grid lg:grid-cols-3 gap-8">
+            {/* Revision List */}
+            <ol className="bg-white border border-ommax-border-gray divide-y divide-ommax-border-gray h-fit">
+              {revisions.map((revision) => (
+                <li key={revision.id}>
+                  <button
+                    onClick={() => setSelectedRevisionId(revision.id)}
+                    className={`w-full text-left px-5 py-4 transition-colors ${
+                      revision.id === selectedRevisionId
+                        ? 'bg-ommax-light-bg border-l-2 border-ommax-red'
+                        : 'hover:bg-ommax-off-white'
+                    }`}
+                  >
+                    <span className="block text-sm font-semibold text-ommax-black">
+                      {REVISION_ACTION_LABELS[revision.action]}
+                    </span>
+                    <span className="block text-xs text-ommax-light-gray">
+                      {formatDateTime(revision.createdAt)} &middot; {revision.changedBy ?? 'unknown'}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ol>
+
+            {/* Diff View */}
+            <div className="lg:col-span-2 bg-white border border-ommax-border-gray p-8">
+              <div className="flex items-start justify-between gap-4 mb-8">
+                <div>
+                  <h2 className="text-lg font-bold text-ommax-black">
+                    {REVISION_ACTION_LABELS[selectedRevision.action]} on{' '}
+                    {formatDateTime(selectedRevision.createdAt)}
+                  </h2>
+                  <p className="text-sm text-ommax-light-gray">
+                    {previousRevision
+                      ? `Compared with the version from ${formatDateTime(previousRevision.createdAt)}`
+                      : 'First recorded version'}
+                  </p>
+                </div>
+                {selectedIndex === 0 && selectedRevision.action !== 'DELETE' ? (
+                  <span className="text-xs font-semibold uppercase tracking-wider text-ommax-light-gray">
+                    Current Version
+                  </span>
+                ) : (
+                  hasRole('EDITOR') && (
+                    <button
+                      onClick={() => restoreRevision(selectedRevision.id)}
+                      disabled={isRestoring}
+                      className="btn-primary flex-shrink-0"
+                    >
+                      {isRestoring ? 'Restoring...' : 'Restore This Version'}
+                    </button>
+                  )
+                )}
+              </div>
+
+              {selectedRevision.comment && (
+                <blockquote className="mb-8 border-l-2 border-ommax-red pl-4 text-sm text-ommax-medium-gray">
+                  {selectedRevision.comment}
+                </blockquote>
+              )}
+
+              {changedFields.length === 0 ? (
+                <p className="text-ommax-light-gray text-sm">
+                  {selectedRevision.action === 'DELETE'
+                    ? 'The use case was deleted. Restore this version to bring it back.'
+                    : 'No content changes in this version.'}
+                </p>
+              ) : (
+                <div className="space-y-8">
+                  {changedFields.map(({ key, label, segments }) => (
+                    <section key={key}>
+                      <h3 className="text-xs font-semibold uppercase tracking-wider text-ommax-light-gray mb-2">
+                        {label}
+                      </h3>
+                      <DiffText segments={segments} />
+                    </section>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// =============================================================================
+// REVIEW QUEUE PAGE
+// =============================================================================
+
+const REVIEW_TABS: UseCaseStatus[] = ['IN_REVIEW', 'DRAFT', 'ARCHIVED'];
+
+const ReviewQueuePage = () => {
+  const { authFetch } = useAuth();
+  const [activeStatus, setActiveStatus] = useState<UseCaseStatus>('IN_REVIEW');
+  const [useCases, setUseCases] = useState<UseCase[]>([]);
+  const [pagination, setPagination] = useState<PaginatedResponse['pagination'] | null>(null);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchQueue = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams();
+      params.set('status', activeStatus);
+      params.set('page', currentPage.toString());
+      params.set('limit', '20');
+
+      const response = await authFetch(`${API_BASE_URL}/use-cases?${params.toString()}`);
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch review queue: ${response.statusText}`);
+      }
+
+      const data = (await response.json()) as PaginatedResponse;
+      setUseCases(data.data);
+      setPagination(data.pagination);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [activeStatus, currentPage, authFetch]);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  // Entries leave the current tab as soon as their status changes
+  const handleStatusChange = (updated: UseCase) => {
+    setUseCases((prev) =>
+      updated.status === activeStatus
+        ? prev.map((useCase) => (useCase.id === updated.id ? updated : useCase))
+        : prev.filter((useCase) => useCase.id !== updated.id)
+    );
+  };
+
+  return (
+    <div className="min-h-[calc(100vh-4rem)] py-12">
+      <div className="max-w-5xl mx-auto px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-10">
+          <h1 className="text-display-md text-ommax-black mb-2">Review Queue</h1>
+          <p className="text-ommax-light-gray text-lg">
+            Approve, reject or archive submissions before they reach the public library.
+          </p>
+        </div>
+
+        {/* Status Tabs */}
+        <div className="flex border-b border-ommax-border-gray mb-8">
+          {REVIEW_TABS.map((status) => (
+            <button
+              key={status}
+              onClick={() => {
+                setActiveStatus(status);
+                setCurrentPage(1);
+              }}
+              className={`px-5 py-3 text-sm font-semibold uppercase tracking-wider border-b-2 -mb-px transition-colors ${
+                status === activeStatus
+                  ? 'border-ommax-red text-ommax-black'
+                  : 'border-transparent text-ommax-light-gray hover:text-ommax-black'
+              }`}
+            >
+              {STATUS_LABELS[status]}
+            </button>
+          ))}
+        </div>
+
+        {/* Error State */}
+        {error && (
+          <div className="mb-8">
+            <ErrorBanner message={error} onRetry={fetchQueue} />
+          </div>
+        )}
+
+        {/* Loading State */}
+        {isLoading && (
+          <div className="flex items-center justify-center py-20">
+            <LoadingSpinner size="lg" />
+          </div>
+        )}
+
+        {!isLoading && !error && (
+          <>
+            {useCases.length === 0 ? (
+              <div className="text-center py-20 border border-ommax-border-gray bg-white">
+                <p className="text-ommax-light-gray">
+                  No use cases with status {STATUS_LABELS[activeStatus].toLowerCase()}.
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-6">
+                {useCases.map((useCase) => (
+                  <article key={useCase.id} className="bg-white border border-ommax-border-gray p-6">
+                    <div className="flex items-start justify-between gap-4 mb-3">
+                      <Link
+                        to={`/use-cases/${useCase.id}`}
+                        className="text-lg font-bold text-ommax-black leading-tight hover:text-ommax-red transition-colors"
+                      >
+                        {useCase.useCase}
+                      </Link>
+                      <StatusBadge status={useCase.status} />
+                    </div>
+                    <p className="text-xs text-ommax-light-gray mb-3">
+                      Last updated {formatDateTime(useCase.updatedAt)}
+                    </p>
+                    <p className="text-ommax-medium-gray text-sm leading-relaxed line-clamp-3 mb-4">
+                      {useCase.conceptDescription}
+                    </p>
+                    {useCase.reviewComment && (
+                      <blockquote className="mb-4 border-l-2 border-ommax-red pl-4 text-sm text-ommax-medium-gray">
+                        {useCase.reviewComment}
+                      </blockquote>
+                    )}
+                    <WorkflowActions useCase={useCase} onChange={handleStatusChange} />
+                  </article>
+                ))}
+              </div>
+            )}
+
+            {pagination && pagination.totalPages > 1 && (
+              <Pagination pagination={pagination} onPageChange={setCurrentPage} />
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// =============================================================================
+// MY SUBMISSIONS PAGE
+// =============================================================================
+
+/**
+ * The signed-in contributor's own use cases in every status, so rejected
+ * drafts can be revised and submitted again.
+ */
+const MySubmissionsPage = () => {
+  const { authFetch, canEdit } = useAuth();
+  const [useCases, setUseCases] = useState<UseCase[]>([]);
+  const [pagination, setPagination] = useState<PaginatedResponse['pagination'] | null>(null);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSubmissions = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams();
+      params.set('mine', 'true');
+      params.set('status', 'all');
+      params.set('sort', 'updated');
+      params.set('page', currentPage.toString());
+      params.set('limit', '20');
+
+      const response = await authFetch(`${API_BASE_URL}/use-cases?${params.toString()}`);
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch your submissions: ${response.statusText}`);
+      }
+
+      const data = (await response.json()) as PaginatedResponse;
+      setUseCases(data.data);
+      setPagination(data.pagination);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentPage, authFetch]);
+
+  useEffect(() => {
+    fetchSubmissions();
+  }, [fetchSubmissions]);
+
+  const handleStatusChange = (updated: UseCase) => {
+    setUseCases((prev) => prev.map((useCase) => (useCase.id === updated.id ? updated : useCase)));
+  };
+
+  return (
+    <div className="min-h-[calc(100vh-4rem)] py-12">
+      <div className="max-w-5xl mx-auto px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-10">
+          <h1 className="text-display-md text-ommax-black mb-2">My Submissions</h1>
+          <p className="text-ommax-light-gray text-lg">
+            Follow your use cases through review. Rejected drafts can be edited and submitted again.
+          </p>
+        </div>
+
+        {/* Error State */}
+        {error && (
+          <div className="mb-8">
+            <ErrorBanner message={error} onRetry={fetchSubmissions} />
+          </div>
+        )}
+
+        {/* Loading State */}
+        {isLoading && (
+          <div className="flex items-center justify-center py-20">
+            <LoadingSpinner size="lg" />
+          </div>
+        )}
+
+        {!isLoading && !error && (
+          <>
+            {useCases.length === 0 ? (
+              <div className="text-center py-20 border border-ommax-border-gray bg-white">
+                <p className="text-ommax-light-gray">You have not submitted any use cases yet.</p>
+              </div>
+            ) : (
+              <div className="space-y-6">
+                {useCases.map((useCase) => (
+                  <article key={useCase.id} className="bg-white border border-ommax-border-gray p-6">
+                    <div className="flex items-start justify-between gap-4 mb-3">
+                      <Link
+                        to={`/use-cases/${useCase.id}`}
+                        className="text-lg font-bold text-ommax-black leading-tight hover:text-ommax-red transition-colors"
+                      >
+                        {useCase.useCase}
+                      </Link>
+                      <StatusBadge status={useCase.status} />
+                    </div>
+                    <p className="text-xs text-ommax-light-gray mb-3">
+                      Last updated {formatDateTime(useCase.updatedAt)}
+                    </p>
+                    {useCase.status !== 'PUBLISHED' && useCase.reviewComment && (
+                      <blockquote className="mb-4 border-l-2 border-ommax-red pl-4 text-sm text-ommax-medium-gray">
+                        {useCase.reviewComment}
+                      </blockquote>
+                    )}
+                    <div className="flex flex-wrap items-start gap-3">
+                      {canEdit(useCase) && (
+                        <Link to={`/use-cases/${useCase.id}/edit`} className="btn-secondary">
+                          Edit
+                        </Link>
+                      )}
+                      <WorkflowActions useCase={useCase} onChange={handleStatusChange} />
+                    </div>
+                  </article>
+                ))}
+              </div>
+            )}
+
+            {pagination && pagination.totalPages > 1 && (
+              <Pagination pagination={pagination} onPageChange={setCurrentPage} />
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// =============================================================================
+// IMPORT WIZARD PAGE
+// =============================================================================
+
+const IMPORT_ACTION_LABELS: Record<ImportRowAction, string> = {
+  insert: 'New',
+  update: 'Update',
+  unchanged: 'Unchanged',
+  duplicate: 'Duplicate',
+  skip: 'Invalid',
+};
+
+const IMPORT_ACTION_CLASSES: Record<ImportRowAction, string> = {
+  insert: 'border-ommax-black text-ommax-black',
+  update: 'border-ommax-black text-ommax-black',
+  unchanged: 'border-ommax-border-gray text-ommax-light-gray',
+  duplicate: 'border-ommax-red text-ommax-red',
+  skip: 'border-ommax-red text-ommax-red',
+};
+
+const IMPORT_DELIMITERS: Array<{ value: string; label: string }> = [
+  { value: '', label: 'Comma (default)' },
+  { value: ';', label: 'Semicolon' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe' },
+];
+
+const IMPORT_FIELDS = SNAPSHOT_FIELDS.filter(
+  (field): field is { key: ImportField; label: string } => field.key !== 'tags'
+);
+
+// Rendering thousands of rows makes the preview sluggish
+const PREVIEW_ROW_LIMIT = 500;
+
+/**
+ * Recorded imports with a two-step rollback. Reloads whenever refreshKey changes.
+ */
+const ImportHistory = ({ refreshKey }: { refreshKey: number | null }) => {
+  const { authFetch } = useAuth();
+  const [batches, setBatches] = useState<ImportBatch[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [confirmingId, setConfirmingId] = useState<number | null>(null);
+  const [rollingBackId, setRollingBackId] = useState<number | null>(null);
+  const [rollbackSummary, setRollbackSummary] = useState<{ batchId: number; result: RollbackResult } | null>(null);
+
+  const fetchBatches = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await authFetch(`${API_BASE_URL}/imports`);
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch import history: ${response.statusText}`);
+      }
+
+      const data = (await response.json()) as { data: ImportBatch[] };
+      setBatches(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [authFetch]);
+
+  useEffect(() => {
+    fetchBatches();
+  }, [fetchBatches, refreshKey]);
+
+  const rollback = async (batchId: number) => {
+    setRollingBackId(batchId);
+    setError(null);
+
+    try {
+      const response = await authFetch(`${API_BASE_URL}/imports/${batchId}/rollback`, { method: 'POST' });
+
+      if (!response.ok) {
+        const errorData = await response.json() as { error?: string };
+        throw new Error(errorData.error ?? 'Failed to roll back the import');
+      }
+
+      const data = (await response.json()) as { data: { batch: ImportBatch; result: RollbackResult } };
+      setBatches((prev) => prev.map((batch) => (batch.id === batchId ? data.data.batch : batch)));
+      setRollbackSummary({ batchId, result: data.data.result });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setRollingBackId(null);
+      setConfirmingId(null);
+    }
+  };
+
+  const describeStats = ({ inserted = 0, updated = 0, archived = 0 }: Partial<ImportStats>): string =>
+    [
+      `${inserted} new`,
+      updated > 0 ? `${updated} updated` : null,
+      archived > 0 ? `${archived} archived` : null,
+    ]
+      .filter(Boolean)
+      .join(' · ');
+
+  return (
+    <section className="mt-16">
+      <h2 className="text-display-sm text-ommax-black mb-6">Import History</h2>
+
+      {error && (
+        <div className="mb-6">
+          <ErrorBanner message={error} onRetry={fetchBatches} />
+        </div>
+      )}
+
+      {rollbackSummary && (
+        <div className="mb-6 bg-white border border-ommax-border-gray p-6 text-sm">
+          <p className="text-ommax-black mb-2">
+            Import #{rollbackSummary.batchId} rolled back: {rollbackSummary.result.deleted} deleted,{' '}
+            {rollbackSummary.result.reverted} reverted, {rollbackSummary.result.republished} published again.
+          </p>
+          {rollbackSummary.result.skipped.length > 0 && (
+            <ul className="space-y-1 text-ommax-red">
+              {rollbackSummary.result.skipped.map(({ useCaseId, useCase, reason }) => (
+                <li key={useCaseId}>
+                  Kept{' '}
+                  <Link to={`/use-cases/${useCaseId}`} className="underline">
+                    {useCase ?? `#${useCaseId}`}
+                  </Link>
+                  : {reason}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <LoadingSpinner />
+        </div>
+      ) : batches.length === 0 ? (
+        <div className="text-center py-12 border border-ommax-border-gray bg-white">
+          <p className="text-ommax-light-gray">No imports yet.</p>
+        </div>
+      ) : (
+        <div className="bg-white border border-ommax-border-gray overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-ommax-border-gray text-left text-xs uppercase tracking-wider text-ommax-light-gray">
+                <th className="px-4 py-3">Date</th>
+                <th className="px-4 py-3">File</th>
+                <th className="px-4 py-3">By</th>
+                <th className="px-4 py-3">Changes</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {batches.map((batch) => (
+                <tr key={batch.id} className="border-b border-ommax-border-gray align-top">
+                  <td className="px-4 py-3 text-ommax-light-gray whitespace-nowrap">{formatDateTime(batch.createdAt)}</td>
+                  <td className="px-4 py-3 text-ommax-black">
+                    {batch.fileName}
+                    <span className="ml-2 text-xs uppercase tracking-wider text-ommax-light-gray">{batch.mode}</span>
+                  </td>
+                  <td className="px-4 py-3 text-ommax-medium-gray">{batch.createdBy ?? '—'}</td>
+                  <td className="px-4 py-3 text-ommax-medium-gray">{describeStats(batch.stats)}</td>
+                  <td className="px-4 py-3 text-right whitespace-nowrap">
+                    {batch.rolledBackAt ? (
+                      <span className="text-xs text-ommax-light-gray">
+                        Rolled back {formatDateTime(batch.rolledBackAt)}
+                        {batch.rolledBackBy && ` by ${batch.rolledBackBy}`}
+                      </span>
+                    ) : confirmingId === batch.id ? (
+                      <span className="inline-flex items-center gap-3">
+                        <button
+                          onClick={() => rollback(batch.id)}
+                          disabled={rollingBackId !== null}
+                          className="text-ommax-red font-semibold text-xs uppercase tracking-wider hover:underline"
+                        >
+                          {rollingBackId === batch.id ? 'Rolling Back...' : 'Confirm Roll Back'}
+                        </button>
+                        <button
+                          onClick={() => setConfirmingId(null)}
+                          className="text-ommax-light-gray font-semibold text-xs uppercase tracking-wider hover:text-ommax-black"
+                        >
+                          Cancel
+                        </button>
+                      </span>
+                    ) : (
+                      <button
+                        onClick={() => setConfirmingId(batch.id)}
+                        className="text-ommax-black font-semibold text-xs uppercase tracking-wider hover:text-ommax-red"
+                      >
+                        Roll Back
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+};
+
+const ImportPage = () => {
+  const { authFetch } = useAuth();
+  const [file, setFile] = useState<File | null>(null);
+  const [mode, setMode] = useState<ImportMode>('insert');
+  const [createTerms, setCreateTerms] = useState(false);
+  const [sheet, setSheet] = useState('');
+  const [delimiter, setDelimiter] = useState('');
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [columnHeaders, setColumnHeaders] = useState<Record<ImportField, string> | null>(null);
+  const [actionFilter, setActionFilter] = useState<ImportRowAction | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isCommitting, setIsCommitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isSpreadsheet = file?.name.toLowerCase().endsWith('.xlsx') ?? false;
+  const isDelimited = file ? /\.(csv|txt)$/i.test(file.name) : false;
+
+  // Uploads the file and replaces the preview; a column mapping re-reads the same file
+  const uploadPreview = async (columns?: Record<ImportField, string>) => {
+    if (!file) {
+      return;
+    }
+
+    setIsUploading(true);
+    setError(null);
+
+    try {
+      const body = new window.FormData();
+      body.append('file', file);
+      body.append('mode', mode);
+      body.append('createTerms', String(createTerms));
+      if (isSpreadsheet && sheet.trim()) body.append('sheet', sheet.trim());
+      if (isDelimited && delimiter) body.append('delimiter', delimiter);
+      if (columns) body.append('mapping', JSON.stringify({ columns }));
+
+      const response = await authFetch(`${API_BASE_URL}/imports`, { method: 'POST', body });
+
+      if (!response.ok) {
+        const errorData = await response.json() as { error?: string; details?: Array<{ message: string }> };
+        throw new Error(errorData.details?.[0]?.message ?? errorData.error ?? 'Failed to read the import file');
+      }
+
+      const data = (await response.json()) as { data: ImportPreview };
+      setPreview(data.data);
+      setColumnHeaders(
+        Object.fromEntries(
+          IMPORT_FIELDS.map(({ key }) => [key, data.data.mapping[key].header])
+        ) as Record<ImportField, string>
+      );
+      setActionFilter(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const commitImport = async () => {
+    if (!preview) {
+      return;
+    }
+
+    setIsCommitting(true);
+    setError(null);
+
+    try {
+      const response = await authFetch(`${API_BASE_URL}/imports/${preview.id}/commit`, { method: 'POST' });
+
+      if (!response.ok) {
+        const errorData = await response.json() as { error?: string };
+        throw new Error(
+          response.status === 404
+            ? 'The preview has expired, please upload the file again'
+            : errorData.error ?? 'Failed to import the file'
+        );
+      }
+
+      const data = (await response.json()) as { data: ImportResult };
+      setResult(data.data);
+      setPreview(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setIsCommitting(false);
+    }
+  };
+
+  const reset = () => {
+    setFile(null);
+    setPreview(null);
+    setColumnHeaders(null);
+    setResult(null);
+    setError(null);
+  };
+
+  const handleUpload = (e: FormEvent) => {
+    e.preventDefault();
+    uploadPreview();
+  };
+
+  // Headers match case-insensitively, as on the server
+  const findHeader = (header: string): string =>
+    preview?.headers.find((candidate) => candidate.trim().toLowerCase() === header.trim().toLowerCase()) ?? '';
+
+  const visibleRows = (preview?.rows ?? []).filter((row) => !actionFilter || row.action === actionFilter);
+  const writableRows = preview ? preview.summary.inserted + preview.summary.updated : 0;
+
+  const summaryCounts: Array<{ action: ImportRowAction; count: number }> = preview
+    ? [
+        { action: 'insert', count: preview.summary.inserted },
+        { action: 'update', count: preview.summary.updated },
+        { action: 'unchanged', count: preview.summary.unchanged },
+        { action: 'duplicate', count: preview.summary.duplicates },
+        { action: 'skip', count: preview.summary.skipped },
+      ]
+    : [];
+
+  return (
+    <div className="min-h-[calc(100vh-4rem)] py-12">
+      <div className="max-w-5xl mx-auto px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-10">
+          <h1 className="text-display-md text-ommax-black mb-2">Import Use Cases</h1>
+          <p className="text-ommax-light-gray text-lg">
+            Upload a CSV, Excel, JSON or JSONL file, check the preview and import the valid rows.
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-8">
+            <ErrorBanner message={error} />
+          </div>
+        )}
+
+        {/* Step 3: Result */}
+        {result && (
+          <div className="bg-white border border-ommax-border-gray p-8 animate-fade-in">
+            <h2 className="text-display-sm text-ommax-black mb-2">Import Completed</h2>
+            <p className="text-ommax-light-gray mb-6">
+              {result.fileName} · recorded as import #{result.batchId}, which can be rolled back below
+            </p>
+            <dl className="grid grid-cols-2 sm:grid-cols-4 gap-6 mb-6">
+              {[
+                { label: 'Inserted', value: result.stats.inserted },
+                { label: 'Updated', value: result.stats.updated },
+                { label: 'Not Imported', value: result.stats.skipped + result.stats.duplicates },
+                { label: 'Errors', value: result.stats.errors },
+              ].map(({ label, value }) => (
+                <div key={label}>
+                  <dt className="text-xs font-semibold uppercase tracking-wider text-ommax-light-gray">{label}</dt>
+                  <dd className="text-display-sm text-ommax-black">{value}</dd>
+                </div>
+              ))}
+            </dl>
+            {result.issues.length > 0 && (
+              <ul className="mb-6 space-y-1 text-sm text-ommax-red">
+                {result.issues.map((issue) => (
+                  <li key={issue.row}>
+                    Row {issue.row}: {issue.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex flex-wrap gap-3">
+              <Link to="/explore" className="btn-primary">
+                Explore Use Cases
+              </Link>
+              <button onClick={reset} className="btn-secondary">
+                Import Another File
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Step 1: Upload */}
+        {!result && !preview && (
+          <form onSubmit={handleUpload} className="bg-white border border-ommax-border-gray p-8 space-y-6">
+            <div className="flex flex-col gap-1">
+              <label className="text-xs font-semibold uppercase tracking-wider text-ommax-light-gray">
+                File
+              </label>
+              <input
+                type="file"
+                accept=".csv,.tsv,.txt,.xlsx,.json,.jsonl,.ndjson"
+                onChange={(e: ChangeEvent<HTMLInputElement>) => setFile(e.target.files?.[0] ?? null)}
+                className="input-field"
+              />
+            </div>
+            <div className="grid sm:grid-cols-2 gap-6">
+              <div className="flex flex-col gap-1">
+                <label className="text-xs font-semibold uppercase tracking-wider text-ommax-light-gray">
+                  Existing Use Cases
+                </label>
+                <select
+                  value={mode}
+                  onChange={(e) => setMode(e.target.value as ImportMode)}
+                  className="input-field cursor-pointer"
+                >
+                  <option value="insert">Keep unchanged (only add new ones)</option>
+                  <option value="upsert">Update from the file</option>
+                </select>
+              </div>
+              {isSpreadsheet && (
+                <div className="flex flex-col gap-1">
+                  <label className="text-xs font-semibold uppercase tracking-wider text-ommax-light-gray">
+                    Sheet
+                  </label>
+                  <input
+                    type="text"
+                    value={sheet}
+                    onChange={(e) => setSheet(e.target.value)}
+                    className="input-field"
+                    placeholder="Name or number, defaults to the first sheet"
+                  />
+                </div>
+              )}
+              {isDelimited && (
+                <div className="flex flex-col gap-1">
+                  <label className="text-xs font-semibold uppercase tracking-wider text-ommax-light-gray">
+                    Delimiter
+                  </label>
+                  <select
+                    value={delimiter}
+                    onChange={(e) => setDelimiter(e.target.value)}
+                    className="input-field cursor-pointer"
+                  >
+                    {IMPORT_DELIMITERS.map(({ value, label }) => (
+                      <option key={label} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+            <label className="flex items-center gap-3 text-sm text-ommax-medium-gray cursor-pointer">
+              <input
+                type="checkbox"
+                checked={createTerms}
+                onChange={(e) => setCreateTerms(e.target.checked)}
+                className="accent-ommax-red"
+              />
+              Create missing industries and departments (otherwise rows using them are skipped)
+            </label>
+            <button type="submit" disabled={!file || isUploading} className="btn-primary">
+              {isUploading ? 'Reading File...' : 'Preview Import'}
+            </button>
+          </form>
+        )}
+
+        {/* Step 2: Preview */}
+        {!result && preview && columnHeaders && (
+          <div className="space-y-8">
+            <div className="bg-white border border-ommax-border-gray p-8">
+              <div className="flex items-start justify-between gap-4 mb-6">
+                <div>
+                  <h2 className="text-lg font-bold text-ommax-black">{preview.fileName}</h2>
+                  <p className="text-sm text-ommax-light-gray">
+                    {preview.summary.totalRows} rows · preview valid until {formatDateTime(preview.expiresAt)}
+                  </p>
+                </div>
+                <button onClick={reset} className="btn-secondary">
+                  Choose Another File
+                </button>
+              </div>
+
+              {/* Column Mapping */}
+              <h3 className="text-xs font-semibold uppercase tracking-wider text-ommax-light-gray mb-3">
+                Column Mapping
+              </h3>
+              <div className="grid sm:grid-cols-2 gap-4 mb-4">
+                {IMPORT_FIELDS.map(({ key, label }) => (
+                  <div key={key} className="flex items-center gap-3">
+                    <span className="w-40 text-sm text-ommax-black">{label}</span>
+                    <select
+                      value={findHeader(columnHeaders[key])}
+                      onChange={(e) => setColumnHeaders({ ...columnHeaders, [key]: e.target.value })}
+                      className="input-field py-2 text-sm cursor-pointer flex-1"
+                    >
+                      <option value="">Not in file</option>
+                      {preview.headers.map((header) => (
+                        <option key={header} value={header}>
+                          {header}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+              <button
+                onClick={() => uploadPreview(columnHeaders)}
+                disabled={isUploading}
+                className="btn-secondary"
+              >
+                {isUploading ? 'Applying...' : 'Apply Mapping'}
+              </button>
+            </div>
+
+            {/* Row Summary */}
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => setActionFilter(null)}
+                className={`px-3 py-1 border text-xs font-semibold uppercase tracking-wider ${
+                  actionFilter === null ? 'bg-ommax-black text-white border-ommax-black' : 'border-ommax-border-gray'
+                }`}
+              >
+                All ({preview.summary.totalRows})
+              </button>
+              {summaryCounts.map(({ action, count }) => (
+                <button
+                  key={action}
+                  onClick={() => setActionFilter(action)}
+                  className={`px-3 py-1 border text-xs font-semibold uppercase tracking-wider ${
+                    actionFilter === action ? 'bg-ommax-black text-white border-ommax-black' : IMPORT_ACTION_CLASSES[action]
+                  }`}
+                >
+                  {IMPORT_ACTION_LABELS[action]} ({count})
+                </button>
+              ))}
+            </div>
+
+            {/* Rows */}
+            <div className="bg-white border border-ommax-border-gray overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-ommax-border-gray text-left text-xs uppercase tracking-wider text-ommax-light-gray">
+                    <th className="px-4 py-3">Row</th>
+                    <th className="px-4 py-3">Use Case</th>
+                    <th className="px-4 py-3">Result</th>
+                    <th className="px-4 py-3">Details</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleRows.slice(0, PREVIEW_ROW_LIMIT).map((row) => (
+                    <tr key={row.rowNumber} className="border-b border-ommax-border-gray align-top">
+                      <td className="px-4 py-3 text-ommax-light-gray">{row.rowNumber}</td>
+                      <td className="px-4 py-3 text-ommax-black">
+                        {row.existingId ? (
+                          <Link to={`/use-cases/${row.existingId}`} className="hover:text-ommax-red">
+                            {row.useCase}
+                          </Link>
+                        ) : (
+                          row.useCase ?? '—'
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span
+                          className={`inline-block px-2 py-1 border text-xs font-semibold uppercase tracking-wider ${IMPORT_ACTION_CLASSES[row.action]}`}
+                        >
+                          {IMPORT_ACTION_LABELS[row.action]}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-ommax-medium-gray">
+                        {row.changedFields.length > 0 && (
+                          <p>
+                            Changes:{' '}
+                            {row.changedFields
+                              .map((field) => SNAPSHOT_FIELDS.find(({ key }) => key === field)?.label ?? field)
+                              .join(', ')}
+                          </p>
+                        )}
+                        {row.issues.map((issue, index) => (
+                          <p key={index} className={issue.severity === 'error' ? 'text-ommax-red' : ''}>
+                            {issue.message}
+                          </p>
+                        ))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {visibleRows.length > PREVIEW_ROW_LIMIT && (
+                <p className="px-4 py-3 text-sm text-ommax-light-gray">
+                  Showing the first {PREVIEW_ROW_LIMIT} of {visibleRows.length} rows.
+                </p>
+              )}
+            </div>
+
+            <div className="flex items-center justify-end gap-4">
+              <p className="text-sm text-ommax-light-gray">
+                Invalid rows and duplicates are not imported.
+              </p>
+              <button
+                onClick={commitImport}
+                disabled={writableRows === 0 || isCommitting || isUploading}
+                className="btn-primary"
+              >
+                {isCommitting ? 'Importing...' : `Import ${writableRows} Use Case${writableRows === 1 ? '' : 's'}`}
+              </button>
+            </div>
+          </div>
+        )}
+
+        <ImportHistory refreshKey={result?.batchId ?? null} />
+      </div>
+    </div>
+  );
+};
+
+// =============================================================================
+// TAXONOMY PAGE
+// =============================================================================
+
+const TAXONOMY_TYPE_LABELS: Record<TaxonomyType, string> = {
+  INDUSTRY: 'Industries',
+  DEPARTMENT: 'Departments',
+  VALUE_CHAIN_STEP: 'Value Chain Steps',
+};
+
+const TaxonomyPage = () => {
+  const { authFetch } = useAuth();
+  const [type, setType] = useState<TaxonomyType>('INDUSTRY');
+  const [values, setValues] = useState<TaxonomyValue[]>([]);
+  const [merges, setMerges] = useState<TaxonomyMerge[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [into, setInto] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isMerging, setIsMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchValues = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const [valuesResponse, mergesResponse] = await Promise.all([
+        authFetch(`${API_BASE_URL}/taxonomy/values?type=${type}`),
+        authFetch(`${API_BASE_URL}/taxonomy/merges`),
+      ]);
+
+      if (!valuesResponse.ok || !mergesResponse.ok) {
+        throw new Error('Failed to fetch the taxonomy values');
+      }
+
+      const valuesData = (await valuesResponse.json()) as { data: TaxonomyValue[] };
+      const mergesData = (await mergesResponse.json()) as { data: TaxonomyMerge[] };
+      setValues(valuesData.data);
+      setMerges(mergesData.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setIsLoading(false);
     }
-  };
+  }, [type, authFetch]);
 
-  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
-    e.preventDefault();
+  useEffect(() => {
+    fetchValues();
+    setSelected([]);
+    setInto('');
+  }, [fetchValues]);
 
-    if (!validateForm()) {
-      return;
+  // Suggests the first selected value (or its canonical name) as the target until one is typed
+  const toggleValue = (item: TaxonomyValue) => {
+    const next = selected.includes(item.value)
+      ? selected.filter((value) => value !== item.value)
+      : [...selected, item.value];
+    setSelected(next);
+    if (next.length === 0) {
+      setInto('');
+    } else if (!into) {
+      setInto(item.term?.name ?? item.value.trim());
     }
+  };
 
-    setIsSubmitting(true);
-    setErrors({});
+  const mergeValues = async () => {
+    setIsMerging(true);
+    setError(null);
+    setMessage(null);
 
     try {
-      const response = await fetch(`${API_BASE_URL}/use-cases`, {
+      const response = await authFetch(`${API_BASE_URL}/taxonomy/merge`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'x-api-key': 'demo-api-key', // In production, this would come from auth
         },
-        body: JSON.stringify({
-          useCase: formData.useCase.trim(),
-          conceptDescription: formData.conceptDescription.trim(),
-          concreteImplementation: formData.concreteImplementation.trim() || undefined,
-          benefit: formData.benefit.trim() || undefined,
-          industry: formData.industry.trim() || undefined,
-          department: formData.department.trim() || undefined,
-          valueChainStep: formData.valueChainStep.trim() || undefined,
-          url: formData.url.trim() || undefined,
-        }),
+        body: JSON.stringify({ type, values: selected, into: into.trim() }),
       });
 
       if (!response.ok) {
         const errorData = await response.json() as { error?: string };
-        throw new Error(errorData.error ?? 'Failed to create use case');
+        throw new Error(errorData.error ?? 'Failed to merge the values');
+      }
+
+      const data = (await response.json()) as { message: string };
+      setMessage(data.message);
+      setSelected([]);
+      setInto('');
+      await fetchValues();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  const canMerge = selected.length > 0 && into.trim() !== '' && !(selected.length === 1 && selected[0] === into.trim());
+
+  return (
+    <div className="min-h-[calc(100vh-4rem)] py-12">
+      <div className="max-w-5xl mx-auto px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-10">
+          <h1 className="text-display-md text-ommax-black mb-2">Taxonomy</h1>
+          <p className="text-ommax-light-gray text-lg">
+            Merge different spellings of the same value. Merged spellings are kept as aliases, so future
+            submissions and imports use the canonical value.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-6">
+          {(Object.keys(TAXONOMY_TYPE_LABELS) as TaxonomyType[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => setType(option)}
+              className={`px-3 py-1 border text-xs font-semibold uppercase tracking-wider ${
+                type === option ? 'bg-ommax-black text-white border-ommax-black' : 'border-ommax-border-gray'
+              }`}
+            >
+              {TAXONOMY_TYPE_LABELS[option]}
+            </button>
+          ))}
+        </div>
+
+        {error && (
+          <div className="mb-6">
+            <ErrorBanner message={error} onRetry={fetchValues} />
+          </div>
+        )}
+
+        {message && (
+          <div className="mb-6 bg-white border border-ommax-border-gray p-4 text-sm text-ommax-black">{message}</div>
+        )}
+
+        {/* Merge Bar */}
+        <div className="mb-6 bg-white border border-ommax-border-gray p-6 flex flex-col md:flex-row md:items-end gap-4">
+          <div className="flex-1">
+            <label htmlFor="taxonomy-into" className="block text-xs font-semibold uppercase tracking-wider text-ommax-light-gray mb-2">
+              Merge {selected.length} selected value{selected.length === 1 ? '' : 's'} into
+            </label>
+            <input
+              id="taxonomy-into"
+              type="text"
+              value={into}
+              onChange={(e) => setInto(e.target.value)}
+              placeholder="Select values below"
+              className="input-field"
+            />
+          </div>
+          <button onClick={mergeValues} disabled={!canMerge || isMerging} className="btn-primary">
+            {isMerging ? 'Merging...' : 'Merge'}
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <LoadingSpinner />
+          </div>
+        ) : values.length === 0 ? (
+          <div className="text-center py-12 border border-ommax-border-gray bg-white">
+            <p className="text-ommax-light-gray">No use case has a value yet.</p>
+          </div>
+        ) : (
+          <div className="bg-white border border-ommax-border-gray overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-ommax-border-gray text-left text-xs uppercase tracking-wider text-ommax-light-gray">
+                  <th className="px-4 py-3 w-10" />
+                  <th className="px-4 py-3">Value</th>
+                  <th className="px-4 py-3">Term</th>
+                  <th className="px-4 py-3 text-right">Use Cases</th>
+                </tr>
+              </thead>
+              <tbody>
+                {values.map((item) => (
+                  <tr key={item.value} className="border-b border-ommax-border-gray">
+                    <td className="px-4 py-3">
+                      <input
+                        type="checkbox"
+                        checked={selected.includes(item.value)}
+                        onChange={() => toggleValue(item)}
+                        aria-label={`Select ${item.value}`}
+                        className="accent-ommax-red"
+                      />
+                    </td>
+                    <td className="px-4 py-3 text-ommax-black whitespace-pre">{item.value}</td>
+                    <td className="px-4 py-3 text-ommax-medium-gray">
+                      {item.term ? (
+                        item.term.name === item.value ? 'Canonical' : `Alias of ${item.term.name}`
+                      ) : (
+                        <span className="text-ommax-light-gray">Unmanaged</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right text-ommax-medium-gray">{item.count.toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Merge History */}
+        {merges.length > 0 && (
+          <section className="mt-16">
+            <h2 className="text-display-sm text-ommax-black mb-6">Merge History</h2>
+            <div className="bg-white border border-ommax-border-gray overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-ommax-border-gray text-left text-xs uppercase tracking-wider text-ommax-light-gray">
+                    <th className="px-4 py-3">Date</th>
+                    <th className="px-4 py-3">Merge</th>
+                    <th className="px-4 py-3">By</th>
+                    <th className="px-4 py-3 text-right">Use Cases</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {merges.map((merge) => (
+                    <tr key={merge.id} className="border-b border-ommax-border-gray align-top">
+                      <td className="px-4 py-3 text-ommax-light-gray whitespace-nowrap">{formatDateTime(merge.createdAt)}</td>
+                      <td className="px-4 py-3 text-ommax-black">
+                        {merge.fromValues.join(', ')} &rarr; {merge.toValue}
+                        <span className="ml-2 text-xs uppercase tracking-wider text-ommax-light-gray">
+                          {TAXONOMY_TYPE_LABELS[merge.type]}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-ommax-medium-gray">{merge.mergedBy ?? '—'}</td>
+                      <td className="px-4 py-3 text-right text-ommax-medium-gray">{merge.useCaseCount}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// =============================================================================
+// USE CASE FORM COMPONENT
+// =============================================================================
+
+const EMPTY_FORM_DATA: FormData = {
+  useCase: '',
+  conceptDescription: '',
+  concreteImplementation: '',
+  benefit: '',
+  industries: [],
+  departments: [],
+  valueChainStep: '',
+  url: '',
+  tags: [],
+};
+
+const toFormData = (useCase: UseCase): FormData => ({
+  useCase: useCase.useCase,
+  conceptDescription: useCase.conceptDescription,
+  concreteImplementation: useCase.concreteImplementation ?? '',
+  benefit: useCase.benefit ?? '',
+  industries: useCase.industries.map((industry) => industry.name),
+  departments: useCase.departments.map((department) => department.name),
+  valueChainStep: useCase.valueChainStep ?? '',
+  url: useCase.url ?? '',
+  tags: useCase.tags.map((tag) => tag.name),
+});
+
+/**
+ * Builds the API request body from the form state.
+ * When editing, empty optional fields are sent as '' so the API clears them;
+ * when creating, they are omitted.
+ */
+const toUseCasePayload = (formData: FormData, clearEmptyFields: boolean) => {
+  const optional = (value: string) => value.trim() || (clearEmptyFields ? '' : undefined);
+
+  return {
+    useCase: formData.useCase.trim(),
+    conceptDescription: formData.conceptDescription.trim(),
+    concreteImplementation: optional(formData.concreteImplementation),
+    benefit: optional(formData.benefit),
+    industries: formData.industries,
+    departments: formData.departments,
+    valueChainStep: optional(formData.valueChainStep),
+    url: optional(formData.url),
+    tags: formData.tags,
+  };
+};
+
+// Wait for a pause in typing before checking the name
+const SIMILAR_NAME_DELAY_MS = 400;
+
+/**
+ * Lists existing use cases with a similar name while the user types one.
+ * Only a hint: failed checks are not shown.
+ */
+const SimilarUseCasesHint = ({ name }: { name: string }) => {
+  const { authFetch } = useAuth();
+  const [similar, setSimilar] = useState<SimilarUseCase[]>([]);
+
+  useEffect(() => {
+    const trimmed = name.trim();
+    if (trimmed.length < 3) {
+      setSimilar([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({ useCase: trimmed });
+        const response = await authFetch(`${API_BASE_URL}/use-cases/similar-names?${params.toString()}`, {
+          signal: controller.signal,
+        });
+        if (response.ok) {
+          const data = (await response.json()) as { data: SimilarUseCase[] };
+          setSimilar(data.data);
+        }
+      } catch {
+        // Aborted by the next keystroke or offline
+      }
+    }, SIMILAR_NAME_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [name, authFetch]);
+
+  if (similar.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-3 border-l-2 border-ommax-red bg-ommax-off-white p-4 text-sm">
+      <p className="font-semibold text-ommax-black mb-2">Similar existing use cases</p>
+      <ul className="space-y-1">
+        {similar.map((useCase) => (
+          <li key={useCase.id} className="flex items-center gap-2">
+            <Link
+              to={`/use-cases/${useCase.id}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-ommax-red hover:underline"
+            >
+              {useCase.useCase}
+            </Link>
+            {useCase.industries.length > 0 && (
+              <span className="text-ommax-light-gray">{joinTermNames(useCase.industries)}</span>
+            )}
+            {useCase.status !== 'PUBLISHED' && <StatusBadge status={useCase.status} />}
+          </li>
+        ))}
+      </ul>
+      <p className="mt-2 text-ommax-light-gray">
+        Please check that your use case is not already in the library.
+      </p>
+    </div>
+  );
+};
+
+// Same limits as the API
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 50;
+const MAX_TAXONOMY_VALUES = 10;
+const MAX_TAXONOMY_VALUE_LENGTH = 200;
+
+/**
+ * Chips for the chosen values and an input that adds one on Enter or comma.
+ * Known values are suggested while typing and keep their spelling; with
+ * allowNew off, only they can be added.
+ */
+const ChipInput = ({
+  id,
+  values,
+  onChange,
+  suggestions,
+  maxValues,
+  maxLength,
+  placeholder,
+  itemLabel,
+  allowNew = true,
+}: {
+  id: string;
+  values: string[];
+  onChange: (values: string[]) => void;
+  suggestions: LinkedTerm[];
+  maxValues: number;
+  maxLength: number;
+  placeholder: string;
+  itemLabel: string;
+  allowNew?: boolean;
+}) => {
+  const [input, setInput] = useState('');
+
+  const addValue = (raw: string) => {
+    const value = raw.trim().replace(/\s+/g, ' ').slice(0, maxLength);
+    const known = suggestions.find((suggestion) => suggestion.name.toLowerCase() === value.toLowerCase());
+    // Unknown values stay in the input so they can be corrected
+    if (value && !known && !allowNew) {
+      return;
+    }
+    setInput('');
+    if (!value || values.length >= maxValues || values.some((existing) => existing.toLowerCase() === value.toLowerCase())) {
+      return;
+    }
+    onChange([...values, known?.name ?? value]);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addValue(input);
+    } else if (e.key === 'Backspace' && !input && values.length > 0) {
+      onChange(values.slice(0, -1));
+    }
+  };
+
+  return (
+    <div>
+      {values.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-2">
+          {values.map((value) => (
+            <span
+              key={value}
+              className="inline-flex items-center gap-2 px-2 py-1 border border-ommax-cyan text-ommax-deep-blue text-sm"
+            >
+              {value}
+              <button
+                type="button"
+                onClick={() => onChange(values.filter((item) => item !== value))}
+                className="text-ommax-light-gray hover:text-ommax-red"
+                aria-label={`Remove ${itemLabel} ${value}`}
+              >
+                &times;
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <input
+        type="text"
+        id={id}
+        list={`${id}-suggestions`}
+        value={input}
+        onChange={(e) => setInput(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => addValue(input)}
+        disabled={values.length >= maxValues}
+        className="input-field"
+        placeholder={values.length >= maxValues ? `At most ${maxValues}` : placeholder}
+      />
+      <datalist id={`${id}-suggestions`}>
+        {suggestions
+          .filter((suggestion) => !values.includes(suggestion.name))
+          .map((suggestion) => (
+            <option key={suggestion.id} value={suggestion.name} />
+          ))}
+      </datalist>
+    </div>
+  );
+};
+
+// Loads suggestions once; they are optional, so failures leave the list empty
+const useSuggestions = (url: string) => {
+  const [suggestions, setSuggestions] = useState<LinkedTerm[]>([]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const fetchSuggestions = async () => {
+      try {
+        const response = await fetch(url, { signal: controller.signal });
+        if (response.ok) {
+          const data = (await response.json()) as { data: LinkedTerm[] };
+          setSuggestions(data.data);
+        }
+      } catch {
+        // Values can still be typed
+      }
+    };
+
+    fetchSuggestions();
+    return () => controller.abort();
+  }, [url]);
+
+  return suggestions;
+};
+
+const TagInput = ({ tags, onChange }: { tags: string[]; onChange: (tags: string[]) => void }) => {
+  const suggestions = useSuggestions(`${API_BASE_URL}/tags?limit=500`);
+
+  return (
+    <ChipInput
+      id="tags"
+      values={tags}
+      onChange={onChange}
+      suggestions={suggestions}
+      maxValues={MAX_TAGS}
+      maxLength={MAX_TAG_LENGTH}
+      placeholder="e.g., GenAI, Computer Vision, Quick Win"
+      itemLabel="tag"
+    />
+  );
+};
+
+// Industries or departments, chosen from the managed taxonomy terms
+const TaxonomyTermInput = ({
+  id,
+  type,
+  values,
+  onChange,
+  placeholder,
+}: {
+  id: string;
+  type: Extract<TaxonomyType, 'INDUSTRY' | 'DEPARTMENT'>;
+  values: string[];
+  onChange: (values: string[]) => void;
+  placeholder: string;
+}) => {
+  const suggestions = useSuggestions(`${API_BASE_URL}/taxonomy?type=${type}`);
+
+  return (
+    <ChipInput
+      id={id}
+      values={values}
+      onChange={onChange}
+      suggestions={suggestions}
+      maxValues={MAX_TAXONOMY_VALUES}
+      maxLength={MAX_TAXONOMY_VALUE_LENGTH}
+      placeholder={placeholder}
+      itemLabel={type === 'INDUSTRY' ? 'industry' : 'department'}
+      allowNew={false}
+    />
+  );
+};
+
+const UseCaseForm = ({
+  initialData,
+  submitLabel,
+  onSubmit,
+  onCancel,
+  checkSimilarNames = false,
+}: {
+  initialData: FormData;
+  submitLabel: string;
+  onSubmit: (formData: FormData) => Promise<void>;
+  onCancel: () => void;
+  checkSimilarNames?: boolean;
+}) => {
+  const [formData, setFormData] = useState<FormData>(initialData);
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const validateForm = (): boolean => {
+    const newErrors: FormErrors = {};
+
+    if (!formData.useCase.trim()) {
+      newErrors.useCase = 'Use case name is required';
+    } else if (formData.useCase.trim().length < 3) {
+      newErrors.useCase = 'Use case name must be at least 3 characters';
+    }
+
+    if (!formData.conceptDescription.trim()) {
+      newErrors.conceptDescription = 'Concept description is required';
+    } else if (formData.conceptDescription.trim().length < 10) {
+      newErrors.conceptDescription = 'Description must be at least 10 characters';
+    }
+
+    if (formData.url.trim()) {
+      const urlRegex = /^(https?:\/\/)?([\da-z.-]+)\.([a-z.]{2,6})([/\w .-]*)*\/?$/i;
+      if (!urlRegex.test(formData.url.trim())) {
+        newErrors.url = 'Please enter a valid URL';
       }
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleChange = (
+    e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
+  ) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+    // Clear error when user starts typing
+    if (errors[name as keyof FormErrors]) {
+      setErrors((prev) => ({ ...prev, [name]: undefined }));
+    }
+  };
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    setErrors({});
 
-      setSubmitSuccess(true);
-      setTimeout(() => {
-        navigate('/explore');
-      }, 2000);
+    try {
+      await onSubmit(formData);
     } catch (err) {
       setErrors({
         general: err instanceof Error ? err.message : 'An unexpected error occurred',
@@ -829,29 +3817,285 @@ const AddUseCasePage = () => {
     }
   };
 
-  if (submitSuccess) {
-    return (
-      <div className="min-h-[calc(100vh-4rem)] flex items-center justify-center py-12">
-        <div className="text-center animate-fade-in">
-          <div className="w-16 h-16 bg-ommax-red mx-auto mb-6 flex items-center justify-center">
-            <svg
-              className="w-8 h-8 text-white"
-              fill="none"
-              viewBox="0 0 24 24"
-              stroke="currentColor"
+  return (
+    <>
+      {/* Error Banner */}
+      {errors.general && (
+        <div className="mb-8">
+          <ErrorBanner message={errors.general} />
+        </div>
+      )}
+
+      {/* Form */}
+      <form onSubmit={handleSubmit} className="bg-white border border-ommax-border-gray p-8">
+        <div className="space-y-6">
+          {/* Use Case Name */}
+          <div>
+            <label
+              htmlFor="useCase"
+              className="block text-sm font-semibold uppercase tracking-wider text-ommax-black mb-2"
+            >
+              Use Case Name <span className="text-ommax-red">*</span>
+            </label>
+            <input
+              type="text"
+              id="useCase"
+              name="useCase"
+              value={formData.useCase}
+              onChange={handleChange}
+              className={`input-field ${errors.useCase ? 'border-ommax-red' : ''}`}
+              placeholder="e.g., Predictive Maintenance for Manufacturing"
+            />
+            {errors.useCase && (
+              <p className="mt-1 text-sm text-ommax-red">{errors.useCase}</p>
+            )}
+            {checkSimilarNames && <SimilarUseCasesHint name={formData.useCase} />}
+          </div>
+
+          {/* Concept Description */}
+          <div>
+            <label
+              htmlFor="conceptDescription"
+              className="block text-sm font-semibold uppercase tracking-wider text-ommax-black mb-2"
+            >
+              Concept Description <span className="text-ommax-red">*</span>
+            </label>
+            <textarea
+              id="conceptDescription"
+              name="conceptDescription"
+              value={formData.conceptDescription}
+              onChange={handleChange}
+              rows={4}
+              className={`input-field resize-y ${errors.conceptDescription ? 'border-ommax-red' : ''}`}
+              placeholder="Describe the core concept and approach..."
+            />
+            {errors.conceptDescription && (
+              <p className="mt-1 text-sm text-ommax-red">{errors.conceptDescription}</p>
+            )}
+          </div>
+
+          {/* Concrete Implementation */}
+          <div>
+            <label
+              htmlFor="concreteImplementation"
+              className="block text-sm font-semibold uppercase tracking-wider text-ommax-black mb-2"
+            >
+              Concrete Implementation
+            </label>
+            <textarea
+              id="concreteImplementation"
+              name="concreteImplementation"
+              value={formData.concreteImplementation}
+              onChange={handleChange}
+              rows={3}
+              className="input-field resize-y"
+              placeholder="Describe specific implementation details..."
+            />
+          </div>
+
+          {/* Benefits */}
+          <div>
+            <label
+              htmlFor="benefit"
+              className="block text-sm font-semibold uppercase tracking-wider text-ommax-black mb-2"
             >
-              <path
-                strokeLinecap="square"
-                strokeLinejoin="miter"
-                strokeWidth={3}
-                d="M5 13l4 4L19 7"
+              Benefits
+            </label>
+            <textarea
+              id="benefit"
+              name="benefit"
+              value={formData.benefit}
+              onChange={handleChange}
+              rows={2}
+              className="input-field resize-y"
+              placeholder="Describe the key benefits and value..."
+            />
+          </div>
+
+          {/* Industries & Departments Row */}
+          <div className="grid md:grid-cols-2 gap-6">
+            <div>
+              <label
+                htmlFor="industries"
+                className="block text-sm font-semibold uppercase tracking-wider text-ommax-black mb-2"
+              >
+                Industries
+              </label>
+              <TaxonomyTermInput
+                id="industries"
+                type="INDUSTRY"
+                values={formData.industries}
+                onChange={(industries) => setFormData((prev) => ({ ...prev, industries }))}
+                placeholder="e.g., Manufacturing"
+              />
+            </div>
+            <div>
+              <label
+                htmlFor="departments"
+                className="block text-sm font-semibold uppercase tracking-wider text-ommax-black mb-2"
+              >
+                Departments
+              </label>
+              <TaxonomyTermInput
+                id="departments"
+                type="DEPARTMENT"
+                values={formData.departments}
+                onChange={(departments) => setFormData((prev) => ({ ...prev, departments }))}
+                placeholder="e.g., Operations"
               />
-            </svg>
+            </div>
+          </div>
+
+          {/* Value Chain Step */}
+          <div>
+            <label
+              htmlFor="valueChainStep"
+              className="block text-sm font-semibold uppercase tracking-wider text-ommax-black mb-2"
+            >
+              Value Chain Step
+            </label>
+            <input
+              type="text"
+              id="valueChainStep"
+              name="valueChainStep"
+              value={formData.valueChainStep}
+              onChange={handleChange}
+              className="input-field"
+              placeholder="e.g., Production, Logistics, Customer Service"
+            />
+          </div>
+
+          {/* Tags */}
+          <div>
+            <label
+              htmlFor="tags"
+              className="block text-sm font-semibold uppercase tracking-wider text-ommax-black mb-2"
+            >
+              Tags
+            </label>
+            <TagInput
+              tags={formData.tags}
+              onChange={(tags) => setFormData((prev) => ({ ...prev, tags }))}
+            />
+          </div>
+
+          {/* URL */}
+          <div>
+            <label
+              htmlFor="url"
+              className="block text-sm font-semibold uppercase tracking-wider text-ommax-black mb-2"
+            >
+              Reference URL
+            </label>
+            <input
+              type="text"
+              id="url"
+              name="url"
+              value={formData.url}
+              onChange={handleChange}
+              className={`input-field ${errors.url ? 'border-ommax-red' : ''}`}
+              placeholder="https://example.com/case-study"
+            />
+            {errors.url && (
+              <p className="mt-1 text-sm text-ommax-red">{errors.url}</p>
+            )}
           </div>
-          <h2 className="text-display-sm text-ommax-black mb-2">Use Case Created!</h2>
-          <p className="text-ommax-light-gray">Redirecting to explore page...</p>
         </div>
+
+        {/* Submit Button */}
+        <div className="mt-10 pt-6 border-t border-ommax-border-gray flex items-center justify-between">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="text-ommax-light-gray font-semibold text-sm uppercase tracking-wider hover:text-ommax-black transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="btn-primary min-w-[200px]"
+          >
+            {isSubmitting ? (
+              <span className="flex items-center gap-2">
+                <LoadingSpinner size="sm" />
+                Submitting...
+              </span>
+            ) : (
+              submitLabel
+            )}
+          </button>
+        </div>
+      </form>
+    </>
+  );
+};
+
+// =============================================================================
+// SUBMIT SUCCESS COMPONENT
+// =============================================================================
+
+const SubmitSuccess = ({ title, message }: { title: string; message: string }) => {
+  return (
+    <div className="min-h-[calc(100vh-4rem)] flex items-center justify-center py-12">
+      <div className="text-center animate-fade-in">
+        <div className="w-16 h-16 bg-ommax-red mx-auto mb-6 flex items-center justify-center">
+          <svg
+            className="w-8 h-8 text-white"
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path
+              strokeLinecap="square"
+              strokeLinejoin="miter"
+              strokeWidth={3}
+              d="M5 13l4 4L19 7"
+            />
+          </svg>
+        </div>
+        <h2 className="text-display-sm text-ommax-black mb-2">{title}</h2>
+        <p className="text-ommax-light-gray">{message}</p>
       </div>
+    </div>
+  );
+};
+
+// =============================================================================
+// ADD USE CASE PAGE
+// =============================================================================
+
+const AddUseCasePage = () => {
+  const navigate = useNavigate();
+  const { authFetch } = useAuth();
+  const [submitSuccess, setSubmitSuccess] = useState(false);
+
+  const handleSubmit = async (formData: FormData) => {
+    const response = await authFetch(`${API_BASE_URL}/use-cases`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(toUseCasePayload(formData, false)),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json() as { error?: string };
+      throw new Error(errorData.error ?? 'Failed to create use case');
+    }
+
+    setSubmitSuccess(true);
+    setTimeout(() => {
+      navigate('/explore');
+    }, 2000);
+  };
+
+  if (submitSuccess) {
+    return (
+      <SubmitSuccess
+        title="Submitted for Review!"
+        message="An editor will review your use case before it is published. Redirecting..."
+      />
     );
   }
 
@@ -866,202 +4110,206 @@ const AddUseCasePage = () => {
           </p>
         </div>
 
-        {/* Error Banner */}
-        {errors.general && (
-          <div className="mb-8">
-            <ErrorBanner message={errors.general} />
+        <UseCaseForm
+          initialData={EMPTY_FORM_DATA}
+          submitLabel="Create Use Case"
+          onSubmit={handleSubmit}
+          onCancel={() => navigate('/explore')}
+          checkSimilarNames
+        />
+      </div>
+    </div>
+  );
+};
+
+// =============================================================================
+// EDIT USE CASE PAGE
+// =============================================================================
+
+const EditUseCasePage = () => {
+  const navigate = useNavigate();
+  const { authFetch } = useAuth();
+  const { id } = useParams<{ id: string }>();
+  const [initialData, setInitialData] = useState<FormData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [submitSuccess, setSubmitSuccess] = useState(false);
+
+  const fetchUseCase = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const useCase = await fetchUseCaseById(id ?? '', authFetch);
+      setInitialData(toFormData(useCase));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id, authFetch]);
+
+  useEffect(() => {
+    fetchUseCase();
+  }, [fetchUseCase]);
+
+  const handleSubmit = async (formData: FormData) => {
+    const response = await authFetch(`${API_BASE_URL}/use-cases/${id ?? ''}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(toUseCasePayload(formData, true)),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json() as { error?: string };
+      throw new Error(errorData.error ?? 'Failed to update use case');
+    }
+
+    setSubmitSuccess(true);
+    setTimeout(() => {
+      navigate(`/use-cases/${id ?? ''}`, { state: RETURN_FROM_EDITING });
+    }, 2000);
+  };
+
+  if (submitSuccess) {
+    return <SubmitSuccess title="Use Case Updated!" message="Redirecting to use case..." />;
+  }
+
+  return (
+    <div className="min-h-[calc(100vh-4rem)] py-12">
+      <div className="max-w-3xl mx-auto px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-10">
+          <h1 className="text-display-md text-ommax-black mb-2">Edit Use Case</h1>
+          <p className="text-ommax-light-gray text-lg">
+            Correct or extend an existing use case in the library.
+          </p>
+        </div>
+
+        {/* Loading State */}
+        {isLoading && (
+          <div className="flex items-center justify-center py-20">
+            <LoadingSpinner size="lg" />
           </div>
         )}
 
-        {/* Form */}
-        <form onSubmit={handleSubmit} className="bg-white border border-ommax-border-gray p-8">
-          <div className="space-y-6">
-            {/* Use Case Name */}
-            <div>
-              <label
-                htmlFor="useCase"
-                className="block text-sm font-semibold uppercase tracking-wider text-ommax-black mb-2"
-              >
-                Use Case Name <span className="text-ommax-red">*</span>
-              </label>
-              <input
-                type="text"
-                id="useCase"
-                name="useCase"
-                value={formData.useCase}
-                onChange={handleChange}
-                className={`input-field ${errors.useCase ? 'border-ommax-red' : ''}`}
-                placeholder="e.g., Predictive Maintenance for Manufacturing"
-              />
-              {errors.useCase && (
-                <p className="mt-1 text-sm text-ommax-red">{errors.useCase}</p>
-              )}
-            </div>
+        {/* Error State */}
+        {!isLoading && error && (
+          <ErrorBanner message={error} onRetry={fetchUseCase} />
+        )}
 
-            {/* Concept Description */}
-            <div>
-              <label
-                htmlFor="conceptDescription"
-                className="block text-sm font-semibold uppercase tracking-wider text-ommax-black mb-2"
-              >
-                Concept Description <span className="text-ommax-red">*</span>
-              </label>
-              <textarea
-                id="conceptDescription"
-                name="conceptDescription"
-                value={formData.conceptDescription}
-                onChange={handleChange}
-                rows={4}
-                className={`input-field resize-y ${errors.conceptDescription ? 'border-ommax-red' : ''}`}
-                placeholder="Describe the core concept and approach..."
-              />
-              {errors.conceptDescription && (
-                <p className="mt-1 text-sm text-ommax-red">{errors.conceptDescription}</p>
-              )}
-            </div>
+        {!isLoading && !error && initialData && (
+          <UseCaseForm
+            initialData={initialData}
+            submitLabel="Save Changes"
+            onSubmit={handleSubmit}
+            onCancel={() => navigate(`/use-cases/${id ?? ''}`, { state: RETURN_FROM_EDITING })}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
 
-            {/* Concrete Implementation */}
-            <div>
-              <label
-                htmlFor="concreteImplementation"
-                className="block text-sm font-semibold uppercase tracking-wider text-ommax-black mb-2"
-              >
-                Concrete Implementation
-              </label>
-              <textarea
-                id="concreteImplementation"
-                name="concreteImplementation"
-                value={formData.concreteImplementation}
-                onChange={handleChange}
-                rows={3}
-                className="input-field resize-y"
-                placeholder="Describe specific implementation details..."
-              />
-            </div>
+// =============================================================================
+// LOGIN PAGE
+// =============================================================================
 
-            {/* Benefits */}
-            <div>
-              <label
-                htmlFor="benefit"
-                className="block text-sm font-semibold uppercase tracking-wider text-ommax-black mb-2"
-              >
-                Benefits
-              </label>
-              <textarea
-                id="benefit"
-                name="benefit"
-                value={formData.benefit}
-                onChange={handleChange}
-                rows={2}
-                className="input-field resize-y"
-                placeholder="Describe the key benefits and value..."
-              />
-            </div>
+const LoginPage = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { login } = useAuth();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
 
-            {/* Industry & Department Row */}
-            <div className="grid md:grid-cols-2 gap-6">
-              <div>
-                <label
-                  htmlFor="industry"
-                  className="block text-sm font-semibold uppercase tracking-wider text-ommax-black mb-2"
-                >
-                  Industry
-                </label>
-                <input
-                  type="text"
-                  id="industry"
-                  name="industry"
-                  value={formData.industry}
-                  onChange={handleChange}
-                  className="input-field"
-                  placeholder="e.g., Manufacturing"
-                />
-              </div>
-              <div>
-                <label
-                  htmlFor="department"
-                  className="block text-sm font-semibold uppercase tracking-wider text-ommax-black mb-2"
-                >
-                  Department
-                </label>
-                <input
-                  type="text"
-                  id="department"
-                  name="department"
-                  value={formData.department}
-                  onChange={handleChange}
-                  className="input-field"
-                  placeholder="e.g., Operations"
-                />
-              </div>
-            </div>
+  const redirectTo = (location.state as { from?: string } | null)?.from ?? '/explore';
 
-            {/* Value Chain Step */}
-            <div>
-              <label
-                htmlFor="valueChainStep"
-                className="block text-sm font-semibold uppercase tracking-wider text-ommax-black mb-2"
-              >
-                Value Chain Step
-              </label>
-              <input
-                type="text"
-                id="valueChainStep"
-                name="valueChainStep"
-                value={formData.valueChainStep}
-                onChange={handleChange}
-                className="input-field"
-                placeholder="e.g., Production, Logistics, Customer Service"
-              />
-            </div>
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
 
-            {/* URL */}
-            <div>
-              <label
-                htmlFor="url"
-                className="block text-sm font-semibold uppercase tracking-wider text-ommax-black mb-2"
-              >
-                Reference URL
-              </label>
-              <input
-                type="text"
-                id="url"
-                name="url"
-                value={formData.url}
-                onChange={handleChange}
-                className={`input-field ${errors.url ? 'border-ommax-red' : ''}`}
-                placeholder="https://example.com/case-study"
-              />
-              {errors.url && (
-                <p className="mt-1 text-sm text-ommax-red">{errors.url}</p>
-              )}
-            </div>
+    if (!username.trim() || !password) {
+      setError('Please enter your username and password');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      await login(username.trim(), password);
+      navigate(redirectTo, { replace: true });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-[calc(100vh-4rem)] flex items-center justify-center py-12">
+      <div className="w-full max-w-md px-6">
+        <div className="mb-10 text-center">
+          <h1 className="text-display-md text-ommax-black mb-2">Sign In</h1>
+          <p className="text-ommax-light-gray text-lg">
+            Sign in to contribute to and curate the library.
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-8">
+            <ErrorBanner message={error} />
           </div>
+        )}
 
-          {/* Submit Button */}
-          <div className="mt-10 pt-6 border-t border-ommax-border-gray flex items-center justify-between">
-            <button
-              type="button"
-              onClick={() => navigate('/explore')}
-              className="text-ommax-light-gray font-semibold text-sm uppercase tracking-wider hover:text-ommax-black transition-colors"
+        <form onSubmit={handleSubmit} className="bg-white border border-ommax-border-gray p-8 space-y-6">
+          <div>
+            <label
+              htmlFor="username"
+              className="block text-sm font-semibold uppercase tracking-wider text-ommax-black mb-2"
             >
-              Cancel
-            </button>
-            <button
-              type="submit"
-              disabled={isSubmitting}
-              className="btn-primary min-w-[200px]"
+              Username
+            </label>
+            <input
+              type="text"
+              id="username"
+              name="username"
+              autoComplete="username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              className="input-field"
+            />
+          </div>
+          <div>
+            <label
+              htmlFor="password"
+              className="block text-sm font-semibold uppercase tracking-wider text-ommax-black mb-2"
             >
-              {isSubmitting ? (
-                <span className="flex items-center gap-2">
-                  <LoadingSpinner size="sm" />
-                  Submitting...
-                </span>
-              ) : (
-                'Create Use Case'
-              )}
-            </button>
+              Password
+            </label>
+            <input
+              type="password"
+              id="password"
+              name="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="input-field"
+            />
           </div>
+          <button type="submit" disabled={isSubmitting} className="btn-primary w-full">
+            {isSubmitting ? (
+              <span className="flex items-center justify-center gap-2">
+                <LoadingSpinner size="sm" />
+                Signing In...
+              </span>
+            ) : (
+              'Sign In'
+            )}
+          </button>
         </form>
       </div>
     </div>
@@ -1095,14 +4343,66 @@ const NotFoundPage = () => {
 const App = () => {
   return (
     <BrowserRouter>
-      <Layout>
-        <Routes>
-          <Route path="/" element={<LandingPage />} />
-          <Route path="/explore" element={<ExplorePage />} />
-          <Route path="/add" element={<AddUseCasePage />} />
-          <Route path="*" element={<NotFoundPage />} />
-        </Routes>
-      </Layout>
+      <AuthProvider>
+        <Layout>
+          <Routes>
+            <Route path="/" element={<LandingPage />} />
+            <Route path="/login" element={<LoginPage />} />
+            <Route path="/explore" element={<ExplorePage />} />
+            <Route
+              path="/add"
+              element={
+                <RequireRole role="CONTRIBUTOR">
+                  <AddUseCasePage />
+                </RequireRole>
+              }
+            />
+            <Route path="/use-cases/:id" element={<UseCaseDetailPage />} />
+            <Route
+              path="/use-cases/:id/edit"
+              element={
+                <RequireRole role="CONTRIBUTOR">
+                  <EditUseCasePage />
+                </RequireRole>
+              }
+            />
+            <Route path="/use-cases/:id/history" element={<UseCaseHistoryPage />} />
+            <Route
+              path="/review"
+              element={
+                <RequireRole role="EDITOR">
+                  <ReviewQueuePage />
+                </RequireRole>
+              }
+            />
+            <Route
+              path="/my-submissions"
+              element={
+                <RequireRole role="CONTRIBUTOR">
+                  <MySubmissionsPage />
+                </RequireRole>
+              }
+            />
+            <Route
+              path="/import"
+              element={
+                <RequireRole role="EDITOR">
+                  <ImportPage />
+                </RequireRole>
+              }
+            />
+            <Route
+              path="/taxonomy"
+              element={
+                <RequireRole role="EDITOR">
+                  <TaxonomyPage />
+                </RequireRole>
+              }
+            />
+            <Route path="*" element={<NotFoundPage />} />
+          </Routes>
+        </Layout>
+      </AuthProvider>
     </BrowserRouter>
   );
 };